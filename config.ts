@@ -0,0 +1,358 @@
+/**
+ * Typed loader for per-pairing `config.yml` files.
+ *
+ * Each entry directory ships a `config.yml` with sandbox defaults and
+ * build-time validation settings. Step frontmatter may override the
+ * sandbox defaults; {@link getSandboxConfig} applies that override.
+ * Validation preludes are expanded around snippets by `./prelude`.
+ *
+ * @example
+ * ```ts
+ * import { getSandboxConfig } from "./config"
+ *
+ * const sandbox = getSandboxConfig("jj-git", 3)
+ * // { enabled: true, environment: "bash", timeout: 60, init: [] }
+ * ```
+ *
+ * @module
+ */
+
+import { join } from "node:path"
+import {
+  type ContentOptions,
+  ContentError,
+  entryDir,
+  expectBoolean,
+  expectKnownKeys,
+  expectNumber,
+  expectObject,
+  expectOneOf,
+  expectString,
+  expectStringArray,
+  parseYamlObject,
+  readContentFile,
+  readFrontmatter,
+  stepFileName,
+} from "./content"
+
+/**
+ * Runtime environments supported by the sandbox and snippet validation.
+ */
+export type SandboxEnvironment = "bash" | "node" | "tmux" | "typescript" | "scala"
+
+/**
+ * All supported sandbox environments, in display order.
+ */
+export const sandboxEnvironments: readonly SandboxEnvironment[] = ["bash", "node", "tmux", "typescript", "scala"]
+
+/**
+ * Interactive sandbox settings for a step.
+ */
+export interface SandboxConfig {
+  /** Whether the terminal sandbox is shown */
+  readonly enabled: boolean
+  /** Runtime environment of the sandbox */
+  readonly environment: SandboxEnvironment
+  /** Session timeout in seconds */
+  readonly timeout: number
+  /** Commands run when the sandbox starts */
+  readonly init: readonly string[]
+}
+
+/**
+ * Partial sandbox settings from step frontmatter.
+ */
+export type SandboxOverride = Partial<SandboxConfig>
+
+/**
+ * Prelude applied to every snippet before validation.
+ */
+export interface ValidationPrelude {
+  /** Shell commands run in the workspace before the snippet */
+  readonly setup?: readonly string[]
+  /** Import lines prepended to code snippets */
+  readonly imports?: readonly string[]
+  /**
+   * Source template wrapping each snippet. `${code}` marks the snippet;
+   * `${imports}` places the imports, which are otherwise prepended.
+   * `$${` writes a literal `${`.
+   */
+  readonly wrapper?: string
+}
+
+/**
+ * Prelude overrides for a lesson step or a single snippet.
+ */
+export interface ValidationOverride extends ValidationPrelude {
+  /** Overrides for secondary-language snippets */
+  readonly secondary?: ValidationPrelude
+}
+
+/**
+ * The `validation` key of step frontmatter.
+ */
+export interface StepValidation extends ValidationOverride {
+  /** Overrides for the snippets whose component has a matching `id` prop */
+  readonly snippets?: Readonly<Record<string, ValidationOverride>>
+}
+
+/**
+ * Validation settings for a secondary snippet language (e.g., Scala in `CrossLanguageBlock`).
+ */
+export interface SecondaryValidationConfig {
+  /** Environment the secondary snippets run in */
+  readonly environment: SandboxEnvironment
+  /** Prelude for secondary snippets */
+  readonly prelude: ValidationPrelude
+}
+
+/**
+ * Build-time snippet validation settings.
+ */
+export interface ValidationConfig {
+  /** Environment the primary snippets run in */
+  readonly environment: SandboxEnvironment
+  /** Prelude for primary snippets */
+  readonly prelude: ValidationPrelude
+  /** Optional secondary language settings */
+  readonly secondary?: SecondaryValidationConfig
+}
+
+/**
+ * Parsed contents of a pairing's `config.yml`.
+ */
+export interface PairingConfig {
+  /** Defaults applied to every step */
+  readonly defaults: {
+    readonly sandbox: SandboxConfig
+  }
+  /** Snippet validation settings, if the pairing is validated */
+  readonly validation?: ValidationConfig
+}
+
+const sandboxKeys = ["enabled", "environment", "timeout", "init"] as const
+
+/**
+ * Parse a sandbox override (every key optional), rejecting unknown keys.
+ *
+ * @param value - Raw YAML value.
+ * @param file - File name used in error messages.
+ * @param path - Key path of the value inside the file.
+ * @returns The validated override.
+ */
+export function parseSandboxOverride(value: unknown, file: string, path = "sandbox"): SandboxOverride {
+  const raw = expectObject(value, file, path)
+  expectKnownKeys(raw, sandboxKeys, file, path)
+
+  const timeout = raw["timeout"] === undefined ? undefined : expectNumber(raw["timeout"], file, `${path}.timeout`)
+  if (timeout !== undefined && timeout <= 0) {
+    throw new ContentError(file, `${path}.timeout`, "expected a positive number of seconds")
+  }
+
+  return {
+    ...(raw["enabled"] !== undefined && { enabled: expectBoolean(raw["enabled"], file, `${path}.enabled`) }),
+    ...(raw["environment"] !== undefined && {
+      environment: expectOneOf(raw["environment"], sandboxEnvironments, file, `${path}.environment`),
+    }),
+    ...(timeout !== undefined && { timeout }),
+    ...(raw["init"] !== undefined && { init: expectStringArray(raw["init"], file, `${path}.init`) }),
+  }
+}
+
+function parseSandboxConfig(value: unknown, file: string, path: string): SandboxConfig {
+  const override = parseSandboxOverride(value, file, path)
+  for (const key of sandboxKeys) {
+    if (override[key] === undefined) {
+      throw new ContentError(file, `${path}.${key}`, "missing required key")
+    }
+  }
+  return override as SandboxConfig
+}
+
+const preludeKeys = ["setup", "imports", "wrapper"] as const
+
+function parsePreludeKeys(raw: Record<string, unknown>, file: string, path: string): ValidationPrelude {
+  return {
+    ...(raw["setup"] !== undefined && { setup: expectStringArray(raw["setup"], file, `${path}.setup`) }),
+    ...(raw["imports"] !== undefined && { imports: expectStringArray(raw["imports"], file, `${path}.imports`) }),
+    ...(raw["wrapper"] !== undefined && { wrapper: expectString(raw["wrapper"], file, `${path}.wrapper`) }),
+  }
+}
+
+/**
+ * Parse a validation prelude, rejecting unknown keys.
+ *
+ * @param value - Raw YAML value.
+ * @param file - File name used in error messages.
+ * @param path - Key path of the value inside the file.
+ * @returns The validated prelude.
+ */
+export function parseValidationPrelude(value: unknown, file: string, path = "validation"): ValidationPrelude {
+  const raw = expectObject(value, file, path)
+  expectKnownKeys(raw, preludeKeys, file, path)
+  return parsePreludeKeys(raw, file, path)
+}
+
+function parseValidationOverride(value: unknown, file: string, path: string): ValidationOverride {
+  const raw = expectObject(value, file, path)
+  expectKnownKeys(raw, [...preludeKeys, "secondary"], file, path)
+
+  return {
+    ...parsePreludeKeys(raw, file, path),
+    ...(raw["secondary"] !== undefined && {
+      secondary: parseValidationPrelude(raw["secondary"], file, `${path}.secondary`),
+    }),
+  }
+}
+
+/**
+ * Parse the `validation` key of step frontmatter, rejecting unknown keys.
+ *
+ * @param value - Raw YAML value.
+ * @param file - File name used in error messages.
+ * @param path - Key path of the value inside the file.
+ * @returns The validated step overrides.
+ */
+export function parseStepValidation(value: unknown, file: string, path = "validation"): StepValidation {
+  const raw = expectObject(value, file, path)
+  expectKnownKeys(raw, [...preludeKeys, "secondary", "snippets"], file, path)
+
+  const { snippets: rawSnippets, ...rest } = raw
+  const snippets =
+    rawSnippets === undefined
+      ? undefined
+      : Object.fromEntries(
+          Object.entries(expectObject(rawSnippets, file, `${path}.snippets`)).map(([id, override]) => [
+            id,
+            parseValidationOverride(override, file, `${path}.snippets.${id}`),
+          ]),
+        )
+
+  return {
+    ...parseValidationOverride(rest, file, path),
+    ...(snippets !== undefined && { snippets }),
+  }
+}
+
+function parseSecondary(value: unknown, file: string, path: string): SecondaryValidationConfig {
+  const raw = expectObject(value, file, path)
+  expectKnownKeys(raw, ["environment", "prelude"], file, path)
+
+  return {
+    environment: expectOneOf(raw["environment"], sandboxEnvironments, file, `${path}.environment`),
+    prelude: raw["prelude"] === undefined ? {} : parseValidationPrelude(raw["prelude"], file, `${path}.prelude`),
+  }
+}
+
+function parseValidation(value: unknown, file: string, path: string): ValidationConfig {
+  const raw = expectObject(value, file, path)
+  expectKnownKeys(raw, ["environment", "prelude", "secondary"], file, path)
+
+  return {
+    environment: expectOneOf(raw["environment"], sandboxEnvironments, file, `${path}.environment`),
+    prelude: raw["prelude"] === undefined ? {} : parseValidationPrelude(raw["prelude"], file, `${path}.prelude`),
+    ...(raw["secondary"] !== undefined && {
+      secondary: parseSecondary(raw["secondary"], file, `${path}.secondary`),
+    }),
+  }
+}
+
+/**
+ * Parse and validate the contents of a `config.yml` file.
+ *
+ * Key order does not matter; unknown keys and wrongly typed values throw.
+ *
+ * @param source - The YAML source.
+ * @param file - File name used in error messages.
+ * @returns The validated configuration.
+ * @throws {ContentError} If the document does not match the schema.
+ */
+export function parsePairingConfig(source: string, file: string): PairingConfig {
+  const raw = parseYamlObject(source, file)
+  expectKnownKeys(raw, ["defaults", "validation"], file, "")
+
+  const defaults = expectObject(raw["defaults"], file, "defaults")
+  expectKnownKeys(defaults, ["sandbox"], file, "defaults")
+
+  return {
+    defaults: {
+      sandbox: parseSandboxConfig(defaults["sandbox"], file, "defaults.sandbox"),
+    },
+    ...(raw["validation"] !== undefined && {
+      validation: parseValidation(raw["validation"], file, "validation"),
+    }),
+  }
+}
+
+/**
+ * Load the `config.yml` of a pairing or tutorial entry.
+ *
+ * @param slug - The entry slug (e.g., "jj-git", "tmux").
+ * @param options - Optional content root override.
+ * @returns The validated configuration.
+ * @throws {ContentError} If the file is missing or invalid.
+ */
+export function loadPairingConfig(slug: string, options: ContentOptions = {}): PairingConfig {
+  const file = join(entryDir(slug, options), "config.yml")
+  return parsePairingConfig(readContentFile(file), file)
+}
+
+/**
+ * Apply a step override on top of sandbox defaults.
+ *
+ * Scalar keys replace the default; `init` replaces the whole list.
+ *
+ * @param base - The pairing defaults.
+ * @param override - The step override.
+ * @returns The merged sandbox settings.
+ */
+export function mergeSandboxConfig(base: SandboxConfig, override: SandboxOverride): SandboxConfig {
+  return {
+    enabled: override.enabled ?? base.enabled,
+    environment: override.environment ?? base.environment,
+    timeout: override.timeout ?? base.timeout,
+    init: override.init ?? base.init,
+  }
+}
+
+/**
+ * Apply a prelude override on top of a base prelude.
+ *
+ * Each key present in the override replaces the base value, lists included.
+ *
+ * @param base - The pairing (or step) prelude.
+ * @param override - The step or snippet override.
+ * @returns The merged prelude.
+ */
+export function mergeValidationPrelude(base: ValidationPrelude, override: ValidationPrelude): ValidationPrelude {
+  return {
+    ...base,
+    ...(override.setup !== undefined && { setup: override.setup }),
+    ...(override.imports !== undefined && { imports: override.imports }),
+    ...(override.wrapper !== undefined && { wrapper: override.wrapper }),
+  }
+}
+
+/**
+ * Get the effective sandbox settings for an entry, optionally for a specific step.
+ *
+ * @param slug - The entry slug (e.g., "jj-git", "tmux").
+ * @param step - Step number whose frontmatter `sandbox` key is applied (0 for the intro).
+ * @param options - Optional content root override.
+ * @returns The merged sandbox settings.
+ * @throws {ContentError} If the config or step file is missing or invalid.
+ */
+export function getSandboxConfig(slug: string, step?: number, options: ContentOptions = {}): SandboxConfig {
+  const defaults = loadPairingConfig(slug, options).defaults.sandbox
+  if (step === undefined) {
+    return defaults
+  }
+
+  const file = join(entryDir(slug, options), "lessons", stepFileName(step))
+  const { data } = readFrontmatter(file)
+  if (data["sandbox"] === undefined) {
+    return defaults
+  }
+
+  return mergeSandboxConfig(defaults, parseSandboxOverride(data["sandbox"], file))
+}
@@ -0,0 +1,253 @@
+/**
+ * Registry-to-filesystem consistency checker.
+ *
+ * Verifies that `toolEntries` agrees with the content on disk: step
+ * counts, step numbering, required files per entry, `KataCTA` step
+ * totals, and validation preludes (wrappers and snippet overrides). Every mismatch is reported rather than stopping
+ * at the first one.
+ *
+ * @example
+ * ```ts
+ * import { checkConsistency, formatIssues } from "./consistency"
+ *
+ * const issues = checkConsistency()
+ * if (issues.length > 0) console.error(formatIssues(issues))
+ * ```
+ *
+ * @module
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync } from "node:fs"
+import { join, relative } from "node:path"
+import { loadPairingConfig } from "./config"
+import { type ContentOptions, CONTENT_ROOT, ContentError, entryDir } from "./content"
+import { listStepFiles, parseLessonFile } from "./lessons"
+import { type TutorialEntry, toolEntries } from "./pairings"
+import { expandSnippets } from "./prelude"
+
+/**
+ * Kinds of consistency problems.
+ */
+export type ConsistencyIssueKind =
+  | "missing-directory"
+  | "missing-config"
+  | "invalid-config"
+  | "missing-glossary"
+  | "unregistered-directory"
+  | "step-count"
+  | "step-gap"
+  | "duplicate-step"
+  | "invalid-lesson"
+  | "invalid-prelude"
+  | "kata-cta"
+
+/**
+ * A single mismatch between the registry and the filesystem.
+ */
+export interface ConsistencyIssue {
+  /** Kind of problem */
+  readonly kind: ConsistencyIssueKind
+  /** Entry slug the problem belongs to */
+  readonly slug: string
+  /** Absolute path of the offending file or directory */
+  readonly file: string
+  /** 1-based line number, when the problem is inside a file */
+  readonly line?: number
+  /** Human-readable description */
+  readonly message: string
+}
+
+/**
+ * Options for {@link checkConsistency}.
+ */
+export interface ConsistencyOptions extends ContentOptions {
+  /** Entries to check (defaults to the full registry) */
+  readonly entries?: readonly TutorialEntry[]
+}
+
+function listMdxFiles(dir: string): readonly string[] {
+  if (!existsSync(dir)) {
+    return []
+  }
+  return readdirSync(dir)
+    .filter((name) => name.endsWith(".mdx"))
+    .sort()
+    .map((name) => join(dir, name))
+}
+
+function checkSteps(entry: TutorialEntry, options: ContentOptions): readonly ConsistencyIssue[] {
+  const issues: ConsistencyIssue[] = []
+  const lessonsDir = join(entryDir(entry.slug, options), "lessons")
+  const files = listStepFiles(entry.slug, options)
+
+  if (files.length !== entry.steps) {
+    issues.push({
+      kind: "step-count",
+      slug: entry.slug,
+      file: lessonsDir,
+      message: `registry declares ${entry.steps} steps but ${files.length} *-step.mdx files exist`,
+    })
+  }
+
+  const seen = new Set<number>()
+  let expected = 1
+  for (const { step, file } of files) {
+    if (seen.has(step)) {
+      issues.push({ kind: "duplicate-step", slug: entry.slug, file, message: `step ${step} appears more than once` })
+      continue
+    }
+    seen.add(step)
+    if (step !== expected) {
+      issues.push({
+        kind: "step-gap",
+        slug: entry.slug,
+        file,
+        message: `expected step ${expected} but found step ${step}`,
+      })
+    }
+    expected = step + 1
+
+    try {
+      parseLessonFile(entry.slug, file, step)
+    } catch (error) {
+      if (!(error instanceof ContentError)) throw error
+      issues.push({ kind: "invalid-lesson", slug: entry.slug, file, message: error.message })
+    }
+  }
+
+  return issues
+}
+
+function checkKataCta(entry: TutorialEntry, options: ContentOptions): readonly ConsistencyIssue[] {
+  const issues: ConsistencyIssue[] = []
+  const dir = entryDir(entry.slug, options)
+  const files = [...listMdxFiles(join(dir, "lessons")), ...listMdxFiles(join(dir, "katas"))]
+
+  for (const file of files) {
+    const lines = readFileSync(file, "utf8").split("\n")
+    lines.forEach((text, index) => {
+      const tag = /<KataCTA\b([^>]*)>/.exec(text)
+      if (!tag) return
+
+      const attrs = tag[1] ?? ""
+      const toolPair = /toolPair="([^"]*)"/.exec(attrs)?.[1]
+      const totalSteps = /totalSteps=\{(\d+)\}/.exec(attrs)?.[1]
+
+      if (toolPair !== undefined && toolPair !== entry.slug) {
+        issues.push({
+          kind: "kata-cta",
+          slug: entry.slug,
+          file,
+          line: index + 1,
+          message: `KataCTA toolPair="${toolPair}" does not match entry "${entry.slug}"`,
+        })
+      }
+      if (totalSteps !== undefined && Number(totalSteps) !== entry.steps) {
+        issues.push({
+          kind: "kata-cta",
+          slug: entry.slug,
+          file,
+          line: index + 1,
+          message: `KataCTA totalSteps={${totalSteps}} does not match registry steps (${entry.steps})`,
+        })
+      }
+    })
+  }
+
+  return issues
+}
+
+function checkEntry(entry: TutorialEntry, options: ContentOptions): readonly ConsistencyIssue[] {
+  const root = options.root ?? CONTENT_ROOT
+  const dir = entryDir(entry.slug, options)
+
+  if (!existsSync(dir)) {
+    // Unpublished entries may not have content yet.
+    return entry.status === "published"
+      ? [{ kind: "missing-directory", slug: entry.slug, file: dir, message: "published entry has no directory" }]
+      : []
+  }
+
+  const issues: ConsistencyIssue[] = []
+  const stepIssues = checkSteps(entry, options)
+
+  const configFile = join(dir, "config.yml")
+  if (!existsSync(configFile)) {
+    issues.push({ kind: "missing-config", slug: entry.slug, file: configFile, message: "config.yml is missing" })
+  } else {
+    try {
+      loadPairingConfig(entry.slug, options)
+    } catch (error) {
+      if (!(error instanceof ContentError)) throw error
+      issues.push({ kind: "invalid-config", slug: entry.slug, file: configFile, message: error.message })
+    }
+  }
+
+  // Invalid config and lesson frontmatter are reported on their own.
+  if (issues.length === 0 && !stepIssues.some((issue) => issue.kind === "invalid-lesson")) {
+    try {
+      expandSnippets(entry.slug, options)
+    } catch (error) {
+      if (!(error instanceof ContentError)) throw error
+      issues.push({ kind: "invalid-prelude", slug: entry.slug, file: error.file, message: error.message })
+    }
+  }
+
+  const glossaryFile = join(root, "glossary", `${entry.slug}.ts`)
+  if (entry.status === "published" && !existsSync(glossaryFile)) {
+    issues.push({
+      kind: "missing-glossary",
+      slug: entry.slug,
+      file: glossaryFile,
+      message: "published entry has no glossary module",
+    })
+  }
+
+  issues.push(...stepIssues, ...checkKataCta(entry, options))
+  return issues
+}
+
+/**
+ * Check the registry against the content on disk.
+ *
+ * @param options - Optional content root and entry list overrides.
+ * @returns Every mismatch found (empty when consistent).
+ */
+export function checkConsistency(options: ConsistencyOptions = {}): readonly ConsistencyIssue[] {
+  const root = options.root ?? CONTENT_ROOT
+  const entries = options.entries ?? toolEntries
+  const issues = entries.flatMap((entry) => checkEntry(entry, options))
+
+  // Directories that look like entries (they have a config.yml) but are not registered.
+  const registered = new Set(entries.map((entry) => entry.slug))
+  for (const name of readdirSync(root).sort()) {
+    const dir = join(root, name)
+    if (registered.has(name) || !statSync(dir).isDirectory()) continue
+    if (existsSync(join(dir, "config.yml"))) {
+      issues.push({
+        kind: "unregistered-directory",
+        slug: name,
+        file: dir,
+        message: "directory has a config.yml but no registry entry",
+      })
+    }
+  }
+
+  return issues
+}
+
+/**
+ * Format issues as one `path[:line]: [kind] message` line each.
+ *
+ * @param issues - Issues returned by {@link checkConsistency}.
+ * @param root - Root that paths are shown relative to.
+ * @returns The formatted report.
+ */
+export function formatIssues(issues: readonly ConsistencyIssue[], root: string = CONTENT_ROOT): string {
+  return issues
+    .map((issue) => {
+      const location = relative(root, issue.file) + (issue.line === undefined ? "" : `:${issue.line}`)
+      return `${location}: [${issue.kind}] ${issue.message}`
+    })
+    .join("\n")
+}
@@ -0,0 +1,237 @@
+/**
+ * Shared filesystem helpers for reading tutorial content.
+ *
+ * Resolves pairing directories, splits MDX frontmatter from its body,
+ * and provides the small set of field readers used to validate
+ * config.yml and frontmatter data.
+ *
+ * @module
+ */
+
+import { readFileSync } from "node:fs"
+import { dirname, join } from "node:path"
+import { fileURLToPath } from "node:url"
+import { parse } from "yaml"
+
+/**
+ * Absolute path of the content repository root (the directory holding `pairings.ts`).
+ */
+export const CONTENT_ROOT = dirname(fileURLToPath(import.meta.url))
+
+/**
+ * Options shared by every loader that touches the filesystem.
+ */
+export interface ContentOptions {
+  /** Content root to read from (defaults to {@link CONTENT_ROOT}) */
+  readonly root?: string
+}
+
+/**
+ * Error thrown when content on disk is missing or malformed.
+ *
+ * Carries the offending file and the dotted key path so messages point
+ * straight at the line an author needs to fix.
+ */
+export class ContentError extends Error {
+  override readonly name = "ContentError"
+
+  constructor(
+    /** File the problem was found in */
+    readonly file: string,
+    /** Dotted key path inside the file (empty for file-level problems) */
+    readonly path: string,
+    /** Human-readable description of the problem */
+    readonly reason: string,
+  ) {
+    super(path ? `${file}: ${path}: ${reason}` : `${file}: ${reason}`)
+  }
+}
+
+/**
+ * Frontmatter split from an MDX document.
+ */
+export interface Frontmatter {
+  /** Parsed YAML data (empty object when the document has no frontmatter) */
+  readonly data: Record<string, unknown>
+  /** Document body after the closing `---` */
+  readonly body: string
+  /** 1-based line number of the first body line */
+  readonly bodyLine: number
+}
+
+/**
+ * Get the directory of a pairing or tutorial entry.
+ *
+ * @param slug - The entry slug (e.g., "jj-git", "tmux").
+ * @param options - Optional content root override.
+ * @returns Absolute path of the entry directory.
+ */
+export function entryDir(slug: string, options: ContentOptions = {}): string {
+  return join(options.root ?? CONTENT_ROOT, slug)
+}
+
+/**
+ * Get the file name of a lesson step (`NN-step.mdx`, or `index.mdx` for step 0).
+ *
+ * @param step - The step number.
+ * @returns File name relative to the `lessons/` directory.
+ */
+export function stepFileName(step: number): string {
+  return step === 0 ? "index.mdx" : `${String(step).padStart(2, "0")}-step.mdx`
+}
+
+/**
+ * Read a UTF-8 file, converting a missing file into a {@link ContentError}.
+ *
+ * @param file - Absolute file path.
+ * @returns The file contents.
+ */
+export function readContentFile(file: string): string {
+  try {
+    return readFileSync(file, "utf8")
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error)
+    throw new ContentError(file, "", `cannot read file (${reason})`)
+  }
+}
+
+/**
+ * Parse a YAML document into a plain object.
+ *
+ * @param source - The YAML source.
+ * @param file - File name used in error messages.
+ * @returns The parsed top-level mapping.
+ */
+export function parseYamlObject(source: string, file: string): Record<string, unknown> {
+  let value: unknown
+  try {
+    value = parse(source)
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error)
+    throw new ContentError(file, "", `invalid YAML (${reason})`)
+  }
+  return value == null ? {} : expectObject(value, file, "")
+}
+
+/**
+ * Split an MDX document into frontmatter data and body.
+ *
+ * @param source - The MDX source.
+ * @param file - File name used in error messages.
+ * @returns Parsed frontmatter and the remaining body.
+ */
+export function parseFrontmatter(source: string, file: string): Frontmatter {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/.exec(source)
+  if (!match) {
+    return { data: {}, body: source, bodyLine: 1 }
+  }
+
+  const header = match[0]
+  return {
+    data: parseYamlObject(match[1] ?? "", file),
+    body: source.slice(header.length),
+    bodyLine: header.split("\n").length,
+  }
+}
+
+/**
+ * Read and parse the frontmatter of an MDX file.
+ *
+ * @param file - Absolute file path.
+ * @returns Parsed frontmatter and the remaining body.
+ */
+export function readFrontmatter(file: string): Frontmatter {
+  return parseFrontmatter(readContentFile(file), file)
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  return typeof value
+}
+
+function keyPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key
+}
+
+/**
+ * Assert that a value is a plain object.
+ */
+export function expectObject(value: unknown, file: string, path: string): Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new ContentError(file, path, `expected a mapping, got ${describe(value)}`)
+  }
+  return value as Record<string, unknown>
+}
+
+/**
+ * Assert that an object only contains the given keys.
+ */
+export function expectKnownKeys(
+  value: Record<string, unknown>,
+  known: readonly string[],
+  file: string,
+  path: string,
+): void {
+  for (const key of Object.keys(value)) {
+    if (!known.includes(key)) {
+      throw new ContentError(file, keyPath(path, key), `unknown key (expected one of: ${known.join(", ")})`)
+    }
+  }
+}
+
+/**
+ * Assert that a value is a string.
+ */
+export function expectString(value: unknown, file: string, path: string): string {
+  if (typeof value !== "string") {
+    throw new ContentError(file, path, `expected a string, got ${describe(value)}`)
+  }
+  return value
+}
+
+/**
+ * Assert that a value is a boolean.
+ */
+export function expectBoolean(value: unknown, file: string, path: string): boolean {
+  if (typeof value !== "boolean") {
+    throw new ContentError(file, path, `expected a boolean, got ${describe(value)}`)
+  }
+  return value
+}
+
+/**
+ * Assert that a value is a finite number.
+ */
+export function expectNumber(value: unknown, file: string, path: string): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new ContentError(file, path, `expected a number, got ${describe(value)}`)
+  }
+  return value
+}
+
+/**
+ * Assert that a value is an array of strings.
+ */
+export function expectStringArray(value: unknown, file: string, path: string): readonly string[] {
+  if (!Array.isArray(value)) {
+    throw new ContentError(file, path, `expected a list of strings, got ${describe(value)}`)
+  }
+  return value.map((item, index) => expectString(item, file, `${path}[${index}]`))
+}
+
+/**
+ * Assert that a value is one of a fixed set of strings.
+ */
+export function expectOneOf<T extends string>(
+  value: unknown,
+  allowed: readonly T[],
+  file: string,
+  path: string,
+): T {
+  const text = expectString(value, file, path)
+  if (!(allowed as readonly string[]).includes(text)) {
+    throw new ContentError(file, path, `expected one of ${allowed.join(", ")}, got "${text}"`)
+  }
+  return text as T
+}
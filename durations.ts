@@ -0,0 +1,278 @@
+/**
+ * Completion-time estimates derived from lesson content.
+ *
+ * Parses duration strings ("~5 min", "1h 30m"), aggregates per-step
+ * frontmatter into entry totals, falls back to a reading-time estimate
+ * when a step declares no time, and reports registry entries whose
+ * hand-maintained `estimatedTime` has drifted from the content.
+ *
+ * @example
+ * ```ts
+ * import { checkEstimatedTimes, computeEntryDuration } from "./durations"
+ *
+ * computeEntryDuration("effect-zio").lessons
+ * // { minutes: 81, approximate: true }
+ *
+ * checkEstimatedTimes().filter((report) => report.flagged)
+ * ```
+ *
+ * @module
+ */
+
+import { existsSync, readdirSync } from "node:fs"
+import { join } from "node:path"
+import { type ContentOptions, entryDir, readFrontmatter } from "./content"
+import { type Lesson, getLessons } from "./lessons"
+import { type TutorialEntry, toolEntries } from "./pairings"
+
+/**
+ * A parsed duration.
+ */
+export interface Duration {
+  /** Length in whole minutes */
+  readonly minutes: number
+  /** Whether the value is an estimate (written with a leading `~`) */
+  readonly approximate: boolean
+}
+
+/**
+ * Where a step's duration came from.
+ */
+export type DurationSource = "frontmatter" | "estimate"
+
+/**
+ * Duration of a single lesson step.
+ */
+export interface StepDuration {
+  /** Step number */
+  readonly step: number
+  /** Computed duration */
+  readonly duration: Duration
+  /** Whether it was declared in frontmatter or estimated from content */
+  readonly source: DurationSource
+}
+
+/**
+ * Aggregated durations for an entry.
+ */
+export interface EntryDuration {
+  /** Entry slug */
+  readonly slug: string
+  /** Per-step durations (the intro is not counted) */
+  readonly steps: readonly StepDuration[]
+  /** Total across all lesson steps */
+  readonly lessons: Duration
+  /** Total across all katas (zero when the entry has none) */
+  readonly katas: Duration
+}
+
+/**
+ * Words per minute assumed for technical prose.
+ */
+export const READING_WORDS_PER_MINUTE = 200
+
+/**
+ * Minutes added per interactive `TryIt` command.
+ */
+export const MINUTES_PER_TRY_IT = 0.5
+
+/**
+ * Minutes added per side-by-side comparison block.
+ */
+export const MINUTES_PER_COMPARISON = 1
+
+const comparisonBlocks = ["SideBySide", "ScalaComparisonBlock", "CrossLanguageBlock"] as const
+
+/**
+ * Parse a duration string such as "~70 min", "5 min", "1h 30m" or "90 minutes".
+ *
+ * @param value - The duration string.
+ * @returns The parsed duration, or `null` if the string is not a duration.
+ */
+export function parseDuration(value: string): Duration | null {
+  const trimmed = value.trim()
+  const approximate = trimmed.startsWith("~")
+  const text = trimmed.replace(/^~\s*/, "").toLowerCase()
+
+  const pattern = /(\d+(?:\.\d+)?)\s*(h|hr|hrs|hours?|m|min|mins|minutes?)\b/g
+  let minutes = 0
+  let consumed = ""
+  for (const match of text.matchAll(pattern)) {
+    const amount = Number(match[1])
+    minutes += (match[2] ?? "").startsWith("h") ? amount * 60 : amount
+    consumed += match[0]
+  }
+
+  // Reject strings with anything other than durations and whitespace.
+  if (consumed === "" || text.replace(pattern, "").trim() !== "") {
+    return null
+  }
+
+  return { minutes: Math.round(minutes), approximate }
+}
+
+/**
+ * Format a duration the way registry and frontmatter strings are written.
+ *
+ * @param duration - The duration to format.
+ * @returns A string such as "~70 min".
+ */
+export function formatDuration(duration: Duration): string {
+  return `${duration.approximate ? "~" : ""}${duration.minutes} min`
+}
+
+/**
+ * Sum durations; the result is approximate if any part is.
+ *
+ * @param durations - Durations to add.
+ * @returns The total duration.
+ */
+export function sumDurations(durations: readonly Duration[]): Duration {
+  return {
+    minutes: durations.reduce((total, duration) => total + duration.minutes, 0),
+    approximate: durations.some((duration) => duration.approximate),
+  }
+}
+
+function countTags(body: string, name: string): number {
+  return body.match(new RegExp(`<${name}\\b`, "g"))?.length ?? 0
+}
+
+/**
+ * Count the prose words of an MDX body, ignoring code and components.
+ *
+ * @param body - The MDX body (without frontmatter).
+ * @returns Number of prose words.
+ */
+export function countProseWords(body: string): number {
+  const prose = body
+    .replace(/```[\s\S]*?```/g, " ")
+    .replace(/<[A-Z][\w.]*\b[\s\S]*?\/>/g, " ")
+    .replace(/<\/?[A-Za-z][^>]*>/g, " ")
+    .replace(/`[^`]*`/g, " ")
+    .replace(/[#*_>|[\]()]/g, " ")
+  return prose.split(/\s+/).filter((word) => /[A-Za-z0-9]/.test(word)).length
+}
+
+/**
+ * Estimate the time needed for an MDX body from its content.
+ *
+ * Combines prose reading time with a fixed allowance per `TryIt`
+ * command and per comparison block.
+ *
+ * @param body - The MDX body (without frontmatter).
+ * @returns The estimated duration (always approximate, at least 1 minute).
+ */
+export function estimateReadingTime(body: string): Duration {
+  const reading = countProseWords(body) / READING_WORDS_PER_MINUTE
+  const tryIts = countTags(body, "TryIt") * MINUTES_PER_TRY_IT
+  const comparisons =
+    comparisonBlocks.reduce((total, name) => total + countTags(body, name), 0) * MINUTES_PER_COMPARISON
+
+  return { minutes: Math.max(1, Math.round(reading + tryIts + comparisons)), approximate: true }
+}
+
+/**
+ * Get the duration of a lesson, preferring its frontmatter `estimatedTime`.
+ *
+ * @param lesson - The lesson to measure.
+ * @returns The step duration and where it came from.
+ */
+export function computeStepDuration(lesson: Lesson): StepDuration {
+  const declared = lesson.estimatedTime === undefined ? null : parseDuration(lesson.estimatedTime)
+  return declared
+    ? { step: lesson.step, duration: declared, source: "frontmatter" }
+    : { step: lesson.step, duration: estimateReadingTime(lesson.body), source: "estimate" }
+}
+
+function kataDurations(slug: string, options: ContentOptions): readonly Duration[] {
+  const dir = join(entryDir(slug, options), "katas")
+  if (!existsSync(dir)) {
+    return []
+  }
+
+  return readdirSync(dir)
+    .filter((name) => name.endsWith(".mdx"))
+    .sort()
+    .map((name) => {
+      const { data, body } = readFrontmatter(join(dir, name))
+      const declared = typeof data["duration"] === "string" ? parseDuration(data["duration"]) : null
+      return declared ?? estimateReadingTime(body)
+    })
+}
+
+/**
+ * Compute lesson and kata totals for an entry from its content.
+ *
+ * @param slug - The entry slug (e.g., "jj-git", "tmux").
+ * @param options - Optional content root override.
+ * @returns Per-step durations and totals.
+ */
+export function computeEntryDuration(slug: string, options: ContentOptions = {}): EntryDuration {
+  const steps = getLessons(slug, options)
+    .filter((lesson) => lesson.step > 0)
+    .map(computeStepDuration)
+
+  return {
+    slug,
+    steps,
+    lessons: sumDurations(steps.map((step) => step.duration)),
+    katas: sumDurations(kataDurations(slug, options)),
+  }
+}
+
+/**
+ * Comparison of a registry `estimatedTime` against the computed total.
+ */
+export interface EstimatedTimeReport {
+  /** Entry slug */
+  readonly slug: string
+  /** Declared registry string */
+  readonly declared: string
+  /** Parsed registry value (`null` if unparseable) */
+  readonly declaredDuration: Duration | null
+  /** Duration computed from lesson content */
+  readonly computed: Duration
+  /** Relative deviation of computed from declared (e.g., 0.2 for 20%) */
+  readonly deviation: number
+  /** Whether the deviation exceeds the tolerance (or the declared value is unparseable) */
+  readonly flagged: boolean
+}
+
+/**
+ * Options for {@link checkEstimatedTimes}.
+ */
+export interface EstimatedTimeOptions extends ContentOptions {
+  /** Entries to check (defaults to published registry entries) */
+  readonly entries?: readonly TutorialEntry[]
+  /** Allowed relative deviation before an entry is flagged (default 0.25) */
+  readonly tolerance?: number
+}
+
+/**
+ * Compare every entry's declared `estimatedTime` with its computed lesson total.
+ *
+ * @param options - Entries, tolerance and content root overrides.
+ * @returns One report per entry.
+ */
+export function checkEstimatedTimes(options: EstimatedTimeOptions = {}): readonly EstimatedTimeReport[] {
+  const tolerance = options.tolerance ?? 0.25
+  const entries = options.entries ?? toolEntries.filter((entry) => entry.status === "published")
+
+  return entries.map((entry) => {
+    const declaredDuration = parseDuration(entry.estimatedTime)
+    const computed = computeEntryDuration(entry.slug, options).lessons
+    const deviation = declaredDuration
+      ? Math.abs(computed.minutes - declaredDuration.minutes) / Math.max(1, declaredDuration.minutes)
+      : Number.POSITIVE_INFINITY
+
+    return {
+      slug: entry.slug,
+      declared: entry.estimatedTime,
+      declaredDuration,
+      computed,
+      deviation,
+      flagged: deviation > tolerance,
+    }
+  })
+}
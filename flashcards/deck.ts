@@ -0,0 +1,172 @@
+/**
+ * Flashcard decks built from comparison glossaries.
+ *
+ * Every glossary entry yields a `forward` card (the tool users already
+ * know → the tool they are learning, e.g., "git stash → jj ?") and a
+ * `reverse` card. Notes go on the back. Decks export to Anki-compatible
+ * TSV for drilling outside the site.
+ *
+ * @example
+ * ```ts
+ * import { buildDeck, toAnkiTsv } from "@/content/flashcards/deck"
+ *
+ * const deck = buildDeck("jj-git")
+ * if (deck) {
+ *   writeFileSync("jj-git.tsv", toAnkiTsv(deck))
+ * }
+ * ```
+ *
+ * @module
+ */
+
+import { type GlossaryReference, getReference } from "../glossary"
+import { commandForTool } from "../glossary/lookup"
+import { getPairing } from "../pairings"
+import { type ToolId, getTool } from "../tools"
+
+/**
+ * Direction a card is asked in.
+ *
+ * - `forward`: from the tool users already know to the tool they are learning
+ * - `reverse`: the other way around
+ */
+export type CardDirection = "forward" | "reverse"
+
+/**
+ * One side of a card: a command and the tool it belongs to.
+ */
+export interface CardSide {
+  /** Tool the command belongs to */
+  readonly tool: ToolId
+  /** Command or API as written in the glossary */
+  readonly command: string
+}
+
+/**
+ * A single flashcard.
+ */
+export interface Flashcard {
+  /** Stable card id (`<entry id>:<direction>`) */
+  readonly id: string
+  /** Glossary entry the card was built from */
+  readonly entryId: string
+  /** Direction the card is asked in */
+  readonly direction: CardDirection
+  /** Category of the source entry */
+  readonly category: string
+  /** What the card asks about */
+  readonly front: CardSide
+  /** The expected answer */
+  readonly back: CardSide
+  /** Note from the glossary (empty if none) */
+  readonly note: string
+}
+
+/**
+ * Cards of one glossary.
+ */
+export interface Deck {
+  /** Glossary slug */
+  readonly slug: string
+  /** Tool users already know */
+  readonly from: ToolId
+  /** Tool users are learning */
+  readonly to: ToolId
+  /** Cards in glossary order, forward before reverse for each entry */
+  readonly cards: readonly Flashcard[]
+}
+
+/**
+ * Options for {@link buildDeck}.
+ */
+export interface DeckOptions {
+  /** Directions to include (default: both) */
+  readonly directions?: readonly CardDirection[]
+  /** Only include these categories */
+  readonly categories?: readonly string[]
+}
+
+function deckTools(reference: GlossaryReference): { readonly from: ToolId; readonly to: ToolId } {
+  const pairing = getPairing(reference.slug)
+  // Derived glossaries have no pairing; their columns already read source → target.
+  return pairing
+    ? { from: pairing.from, to: pairing.to }
+    : { from: reference.columns.fromCommand, to: reference.columns.toCommand }
+}
+
+/**
+ * Build a deck from a comparison glossary.
+ *
+ * @param slug - The glossary slug (e.g., "jj-git", "effect-zio", "effect-cats").
+ * @param options - Directions and categories to include.
+ * @returns The deck, or `null` if the slug has no comparison glossary.
+ */
+export function buildDeck(slug: string, options: DeckOptions = {}): Deck | null {
+  const reference = getReference(slug)
+  if (reference?.kind !== "glossary") {
+    return null
+  }
+
+  const { from, to } = deckTools(reference)
+  const directions = options.directions ?? ["forward", "reverse"]
+  const cards = reference.entries
+    .filter((entry) => !options.categories || options.categories.includes(entry.category))
+    .flatMap((entry) => {
+      const known = { tool: from, command: commandForTool(reference, entry, from) ?? "" }
+      const learning = { tool: to, command: commandForTool(reference, entry, to) ?? "" }
+      return directions.map((direction) => ({
+        id: `${entry.id}:${direction}`,
+        entryId: entry.id,
+        direction,
+        category: entry.category,
+        front: direction === "forward" ? known : learning,
+        back: direction === "forward" ? learning : known,
+        note: entry.note,
+      }))
+    })
+
+  return { slug, from, to, cards }
+}
+
+function ankiField(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\t/g, " ")
+    .replace(/\r?\n/g, "<br>")
+}
+
+/**
+ * Export a deck as Anki-compatible tab-separated text.
+ *
+ * Uses Anki's file headers (Basic note type, HTML fields, GUID and tag
+ * columns), so re-importing an updated deck updates existing notes
+ * instead of duplicating them.
+ *
+ * @param deck - The deck to export.
+ * @param deckName - Anki deck to import into (default: `toolkata::<slug>`).
+ * @returns TSV text ending with a newline.
+ */
+export function toAnkiTsv(deck: Deck, deckName = `toolkata::${deck.slug}`): string {
+  const headers = [
+    "#separator:tab",
+    "#html:true",
+    "#notetype:Basic",
+    `#deck:${deckName}`,
+    "#guid column:1",
+    "#tags column:4",
+  ]
+
+  const rows = deck.cards.map((card) => {
+    const front = `${ankiField(getTool(card.front.tool).name)}: <code>${ankiField(card.front.command)}</code>`
+    const back = [
+      `${ankiField(getTool(card.back.tool).name)}: <code>${ankiField(card.back.command)}</code>`,
+      ...(card.note ? [ankiField(card.note)] : []),
+    ].join("<br><br>")
+    const tags = [`toolkata::${deck.slug}`, `toolkata::${deck.slug}::${card.category.toLowerCase()}`, card.direction]
+    return [`toolkata-${deck.slug}-${card.id}`, front, back, tags.join(" ")].join("\t")
+  })
+
+  return `${[...headers, ...rows].join("\n")}\n`
+}
@@ -0,0 +1,166 @@
+/**
+ * SM-2 spaced-repetition scheduler for flashcard decks.
+ *
+ * Each card's review state (repetitions, interval, ease factor and due
+ * date) is kept in a pluggable {@link ReviewStorage}, keyed by glossary
+ * entry id and card direction. Intervals are whole days; dates are
+ * `YYYY-MM-DD` strings in UTC.
+ *
+ * @example
+ * ```ts
+ * import { buildDeck } from "@/content/flashcards/deck"
+ * import { createScheduler } from "@/content/flashcards/scheduler"
+ * import { createJsonFileStorage } from "@/content/flashcards/storage"
+ *
+ * const deck = buildDeck("jj-git")
+ * if (deck) {
+ *   const scheduler = createScheduler(deck, createJsonFileStorage("reviews.json"))
+ *   const [card] = scheduler.getDueCards({ newLimit: 10 })
+ *   if (card) scheduler.answer(card, 4)
+ * }
+ * ```
+ *
+ * @module
+ */
+
+import type { Deck, Flashcard } from "./deck"
+import type { ReviewStorage } from "./storage"
+
+/**
+ * Answer quality, as in SM-2.
+ *
+ * 5 perfect, 4 correct after hesitation, 3 correct with difficulty,
+ * 2 wrong but familiar, 1 wrong, 0 blackout. Grades below 3 reset the card.
+ */
+export type Grade = 0 | 1 | 2 | 3 | 4 | 5
+
+/**
+ * Review state of a single card.
+ */
+export interface ReviewState {
+  /** Consecutive correct answers (grade 3 or higher) */
+  readonly repetitions: number
+  /** Days until the next review */
+  readonly interval: number
+  /** Ease factor (at least 1.3, starts at 2.5) */
+  readonly easeFactor: number
+  /** Next review date (YYYY-MM-DD) */
+  readonly due: string
+  /** Date of the last review (YYYY-MM-DD) */
+  readonly lastReviewed: string
+}
+
+/**
+ * Ease factor of a card that has never been reviewed.
+ */
+export const INITIAL_EASE_FACTOR = 2.5
+
+/**
+ * Lowest ease factor SM-2 allows.
+ */
+export const MIN_EASE_FACTOR = 1.3
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Format a date as `YYYY-MM-DD` (UTC).
+ */
+export function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+function addDays(date: string, days: number): string {
+  return toDateString(new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS))
+}
+
+/**
+ * Apply one SM-2 review to a card.
+ *
+ * @param state - The card's current state, or `null` for a new card.
+ * @param grade - Answer quality.
+ * @param now - Review time (default: now).
+ * @returns The updated state.
+ */
+export function reviewCard(state: ReviewState | null, grade: Grade, now: Date = new Date()): ReviewState {
+  const today = toDateString(now)
+  const previous = state ?? { repetitions: 0, interval: 0, easeFactor: INITIAL_EASE_FACTOR }
+
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    previous.easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)),
+  )
+
+  if (grade < 3) {
+    return { repetitions: 0, interval: 1, easeFactor, due: addDays(today, 1), lastReviewed: today }
+  }
+
+  const repetitions = previous.repetitions + 1
+  const interval =
+    repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(previous.interval * previous.easeFactor)
+  return { repetitions, interval, easeFactor, due: addDays(today, interval), lastReviewed: today }
+}
+
+/**
+ * Options for {@link Scheduler.getDueCards}.
+ */
+export interface DueCardOptions {
+  /** Reference time (default: now) */
+  readonly now?: Date
+  /** Maximum number of never-reviewed cards to include (default: all) */
+  readonly newLimit?: number
+}
+
+/**
+ * Scheduler bound to a deck and a storage adapter.
+ */
+export interface Scheduler {
+  /** Review state of a card, or `null` if it has never been reviewed */
+  readonly getState: (card: Flashcard) => ReviewState | null
+  /** Cards due for review, most overdue first, followed by new cards in deck order */
+  readonly getDueCards: (options?: DueCardOptions) => readonly Flashcard[]
+  /** Record an answer, persist the new state and return it */
+  readonly answer: (card: Flashcard, grade: Grade, now?: Date) => ReviewState
+}
+
+/**
+ * Create a scheduler for a deck.
+ *
+ * States are loaded from `storage` on every call and saved after every
+ * answer, so several schedulers can share one storage.
+ *
+ * @param deck - The deck to schedule.
+ * @param storage - Where review states are kept.
+ * @returns The scheduler.
+ */
+export function createScheduler(deck: Deck, storage: ReviewStorage): Scheduler {
+  const getState = (card: Flashcard): ReviewState | null =>
+    storage.load(deck.slug)[card.entryId]?.[card.direction] ?? null
+
+  return {
+    getState,
+    getDueCards: (options = {}) => {
+      const today = toDateString(options.now ?? new Date())
+      const states = storage.load(deck.slug)
+      const stateOf = (card: Flashcard) => states[card.entryId]?.[card.direction]
+
+      const due = deck.cards
+        .filter((card) => {
+          const state = stateOf(card)
+          return state !== undefined && state.due <= today
+        })
+        .sort((a, b) => (stateOf(a)?.due ?? "").localeCompare(stateOf(b)?.due ?? ""))
+      const fresh = deck.cards.filter((card) => stateOf(card) === undefined)
+
+      return [...due, ...fresh.slice(0, options.newLimit ?? fresh.length)]
+    },
+    answer: (card, grade, now = new Date()) => {
+      const states = storage.load(deck.slug)
+      const next = reviewCard(states[card.entryId]?.[card.direction] ?? null, grade, now)
+      storage.save(deck.slug, {
+        ...states,
+        [card.entryId]: { ...states[card.entryId], [card.direction]: next },
+      })
+      return next
+    },
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Storage adapters for flashcard review states.
+ *
+ * States are grouped per deck (glossary slug) and keyed by glossary
+ * entry id, with one state per card direction. Implement
+ * {@link ReviewStorage} to keep them elsewhere (e.g., localStorage or a
+ * database).
+ *
+ * @example
+ * ```ts
+ * import { createJsonFileStorage, createMemoryStorage } from "@/content/flashcards/storage"
+ *
+ * const storage = createJsonFileStorage(join(homedir(), ".toolkata-reviews.json"))
+ * storage.load("jj-git")["basics-1"]?.forward
+ * ```
+ *
+ * @module
+ */
+
+import { existsSync, writeFileSync } from "node:fs"
+import { ContentError, expectKnownKeys, expectNumber, expectObject, expectString, readContentFile } from "../content"
+import type { CardDirection } from "./deck"
+import type { ReviewState } from "./scheduler"
+
+/**
+ * Review states of one glossary entry, per card direction.
+ */
+export type EntryReviewStates = { readonly [direction in CardDirection]?: ReviewState }
+
+/**
+ * Review states of one deck, keyed by glossary entry id.
+ */
+export type DeckReviewStates = Readonly<Record<string, EntryReviewStates>>
+
+/**
+ * Where review states are kept.
+ */
+export interface ReviewStorage {
+  /** Load the states of a deck (empty if none were saved) */
+  readonly load: (slug: string) => DeckReviewStates
+  /** Replace the states of a deck */
+  readonly save: (slug: string, states: DeckReviewStates) => void
+}
+
+/**
+ * Create a storage that keeps states in memory.
+ *
+ * @param initial - States to start with, keyed by deck slug.
+ * @returns The storage.
+ */
+export function createMemoryStorage(initial: Readonly<Record<string, DeckReviewStates>> = {}): ReviewStorage {
+  const decks = new Map(Object.entries(initial))
+  return {
+    load: (slug) => decks.get(slug) ?? {},
+    save: (slug, states) => {
+      decks.set(slug, states)
+    },
+  }
+}
+
+/**
+ * On-disk format of {@link createJsonFileStorage}.
+ */
+interface ReviewFile {
+  readonly version: 1
+  readonly decks: Readonly<Record<string, DeckReviewStates>>
+}
+
+const directions: readonly CardDirection[] = ["forward", "reverse"]
+
+function parseReviewState(value: unknown, file: string, path: string): ReviewState {
+  const raw = expectObject(value, file, path)
+  expectKnownKeys(raw, ["repetitions", "interval", "easeFactor", "due", "lastReviewed"], file, path)
+
+  const date = (key: string) => {
+    const text = expectString(raw[key], file, `${path}.${key}`)
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+      throw new ContentError(file, `${path}.${key}`, `expected a YYYY-MM-DD date, got "${text}"`)
+    }
+    return text
+  }
+
+  return {
+    repetitions: expectNumber(raw["repetitions"], file, `${path}.repetitions`),
+    interval: expectNumber(raw["interval"], file, `${path}.interval`),
+    easeFactor: expectNumber(raw["easeFactor"], file, `${path}.easeFactor`),
+    due: date("due"),
+    lastReviewed: date("lastReviewed"),
+  }
+}
+
+function parseDeck(value: unknown, file: string, path: string): DeckReviewStates {
+  return Object.fromEntries(
+    Object.entries(expectObject(value, file, path)).map(([id, entry]) => {
+      const raw = expectObject(entry, file, `${path}.${id}`)
+      expectKnownKeys(raw, directions, file, `${path}.${id}`)
+      const states: { [direction in CardDirection]?: ReviewState } = {}
+      for (const direction of directions) {
+        if (raw[direction] !== undefined) {
+          states[direction] = parseReviewState(raw[direction], file, `${path}.${id}.${direction}`)
+        }
+      }
+      return [id, states]
+    }),
+  )
+}
+
+function readReviewFile(file: string): ReviewFile {
+  if (!existsSync(file)) {
+    return { version: 1, decks: {} }
+  }
+
+  let data: unknown
+  try {
+    data = JSON.parse(readContentFile(file))
+  } catch (error) {
+    if (error instanceof ContentError) throw error
+    throw new ContentError(file, "", `invalid JSON (${error instanceof Error ? error.message : String(error)})`)
+  }
+
+  const raw = expectObject(data, file, "")
+  expectKnownKeys(raw, ["version", "decks"], file, "")
+  if (raw["version"] !== 1) {
+    throw new ContentError(file, "version", "expected a version 1 review file")
+  }
+  const decks = Object.entries(expectObject(raw["decks"], file, "decks")).map(([slug, deck]) => [
+    slug,
+    parseDeck(deck, file, `decks.${slug}`),
+  ])
+  return { version: 1, decks: Object.fromEntries(decks) }
+}
+
+/**
+ * Create a storage backed by a JSON file.
+ *
+ * The file is read on every load and rewritten on every save, so it can
+ * be shared between processes run one after another. A missing file is
+ * treated as empty.
+ *
+ * @param file - Path of the JSON file.
+ * @returns The storage.
+ * @throws {ContentError} On load or save, if the file exists but is not a valid review file.
+ */
+export function createJsonFileStorage(file: string): ReviewStorage {
+  return {
+    load: (slug) => readReviewFile(file).decks[slug] ?? {},
+    save: (slug, states) => {
+      const current = readReviewFile(file)
+      const next: ReviewFile = { version: 1, decks: { ...current.decks, [slug]: states } }
+      writeFileSync(file, `${JSON.stringify(next, null, 2)}\n`)
+    },
+  }
+}
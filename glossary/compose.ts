@@ -0,0 +1,223 @@
+/**
+ * Transitive glossary composition.
+ *
+ * Joins two glossaries that share a tool (e.g., ZIO ↔ Cats Effect and
+ * Effect ↔ ZIO share ZIO) into a derived glossary between the two
+ * remaining tools (Cats Effect → Effect). Commands on the shared side
+ * are matched after normalization, so `ZIO.succeed(a)` and
+ * `ZIO.succeed(x)` join.
+ *
+ * @example
+ * ```ts
+ * import { composeGlossaries } from "@/content/glossary/compose"
+ * import { getReference } from "@/content/glossary"
+ *
+ * const zioCats = getReference("zio-cats")
+ * const effectZio = getReference("effect-zio")
+ * if (zioCats?.kind === "glossary" && effectZio?.kind === "glossary") {
+ *   composeGlossaries(zioCats, effectZio)
+ *   // { from: "cats-effect", to: "effect", via: "zio", entries: [...], unmatched: {...} }
+ * }
+ * ```
+ *
+ * @module
+ */
+
+import type { ContentVerification, ToolId } from "../tools"
+import type { GlossaryReference } from "./index"
+import { type GlossaryEntry, createGlossaryHelpers } from "./types"
+
+/**
+ * Entry of a composed glossary.
+ *
+ * `fromCommand` and `toCommand` come from the two source glossaries;
+ * `note` joins both source notes.
+ */
+export interface ComposedEntry extends GlossaryEntry {
+  /** Shared-tool command the entries were joined on (as written in the first glossary) */
+  readonly via: string
+  /** Source entries from the first and second glossary */
+  readonly sources: readonly [GlossaryEntry, GlossaryEntry]
+  /** Notes of the first and second source entry */
+  readonly notes: readonly [string, string]
+}
+
+/**
+ * Result of joining two glossaries on a shared tool.
+ */
+export interface ComposedGlossary {
+  /** Tool of the composed `fromCommand` column (from the first glossary) */
+  readonly from: ToolId
+  /** Tool of the composed `toCommand` column (from the second glossary) */
+  readonly to: ToolId
+  /** Shared tool the glossaries were joined on */
+  readonly via: ToolId
+  /** Joined entries, in first-glossary order */
+  readonly entries: readonly ComposedEntry[]
+  /** Source entries without a counterpart in the other glossary */
+  readonly unmatched: {
+    readonly first: readonly GlossaryEntry[]
+    readonly second: readonly GlossaryEntry[]
+  }
+}
+
+/**
+ * Normalize a command for matching across glossaries.
+ *
+ * Removes whitespace, comments and the contents of `()`, `[]` and `{}`
+ * (argument names and type parameters), keeping the brackets so call
+ * shapes still have to agree.
+ *
+ * @param command - The command or API as written in a glossary.
+ * @returns The normalized skeleton (e.g., `ZIO.succeed(a)` → `ZIO.succeed()`).
+ */
+export function normalizeCommand(command: string): string {
+  const text = command.replace(/\/\/.*$/gm, "").replace(/\s+/g, "")
+  const closers: Record<string, string> = { "(": ")", "[": "]", "{": "}" }
+  const stack: string[] = []
+  let result = ""
+
+  for (const char of text) {
+    if (char in closers) {
+      if (stack.length === 0) result += char
+      stack.push(closers[char] ?? "")
+    } else if (stack.length > 0 && char === stack[stack.length - 1]) {
+      stack.pop()
+      if (stack.length === 0) result += char
+    } else if (stack.length === 0) {
+      result += char
+    }
+  }
+
+  return result
+}
+
+function commandFor(reference: GlossaryReference, entry: GlossaryEntry, tool: ToolId): string {
+  return reference.columns.fromCommand === tool ? entry.fromCommand : entry.toCommand
+}
+
+function otherTool(reference: GlossaryReference, tool: ToolId): ToolId {
+  return reference.columns.fromCommand === tool ? reference.columns.toCommand : reference.columns.fromCommand
+}
+
+/**
+ * Find the tool two glossaries have in common.
+ *
+ * @returns The shared tool id, or `null` if they share none.
+ */
+export function findSharedTool(first: GlossaryReference, second: GlossaryReference): ToolId | null {
+  const secondTools = [second.columns.fromCommand, second.columns.toCommand]
+  return [first.columns.fromCommand, first.columns.toCommand].find((tool) => secondTools.includes(tool)) ?? null
+}
+
+/**
+ * Join two glossaries on their shared tool.
+ *
+ * The non-shared tool of `first` becomes the `from` side and the
+ * non-shared tool of `second` the `to` side. A shared command that
+ * appears several times on either side yields every combination.
+ *
+ * @param first - Glossary containing the `from` tool and the shared tool.
+ * @param second - Glossary containing the shared tool and the `to` tool.
+ * @returns The composed glossary with unmatched entries from both sides.
+ * @throws {Error} If the glossaries do not share exactly one tool.
+ */
+export function composeGlossaries(first: GlossaryReference, second: GlossaryReference): ComposedGlossary {
+  const via = findSharedTool(first, second)
+  if (!via) {
+    throw new Error(`Glossaries "${first.slug}" and "${second.slug}" share no tool`)
+  }
+  const from = otherTool(first, via)
+  const to = otherTool(second, via)
+  if (from === to) {
+    throw new Error(`Glossaries "${first.slug}" and "${second.slug}" cover the same pair of tools`)
+  }
+
+  const secondByCommand = new Map<string, GlossaryEntry[]>()
+  for (const entry of second.entries) {
+    const key = normalizeCommand(commandFor(second, entry, via))
+    const list = secondByCommand.get(key) ?? []
+    list.push(entry)
+    secondByCommand.set(key, list)
+  }
+
+  const entries: ComposedEntry[] = []
+  const unmatchedFirst: GlossaryEntry[] = []
+  const matchedSecond = new Set<GlossaryEntry>()
+
+  for (const left of first.entries) {
+    const shared = commandFor(first, left, via)
+    const matches = secondByCommand.get(normalizeCommand(shared)) ?? []
+    if (matches.length === 0) {
+      unmatchedFirst.push(left)
+      continue
+    }
+
+    for (const right of matches) {
+      matchedSecond.add(right)
+      entries.push({
+        id: `${left.id}+${right.id}`,
+        category: left.category,
+        fromCommand: commandFor(first, left, from),
+        toCommand: commandFor(second, right, to),
+        note: [left.note, right.note].filter(Boolean).join(" / "),
+        via: shared,
+        sources: [left, right],
+        notes: [left.note, right.note],
+      })
+    }
+  }
+
+  return {
+    from,
+    to,
+    via,
+    entries,
+    unmatched: {
+      first: unmatchedFirst,
+      second: second.entries.filter((entry) => !matchedSecond.has(entry)),
+    },
+  }
+}
+
+/**
+ * Wrap a composed glossary as a derived reference, so it resolves like any other pairing.
+ *
+ * Tool versions of the `from` and `to` sides are carried over, and the
+ * verification date is the older of the two sources (none if either
+ * source is unverified).
+ *
+ * @param slug - Slug of the virtual pairing (e.g., "effect-cats").
+ * @param composed - Result of {@link composeGlossaries}.
+ * @param first - The first source glossary.
+ * @param second - The second source glossary.
+ * @returns A glossary reference over the composed entries.
+ */
+export function deriveReference(
+  slug: string,
+  composed: ComposedGlossary,
+  first: GlossaryReference,
+  second: GlossaryReference,
+): GlossaryReference {
+  const categories = [...new Set(composed.entries.map((entry) => entry.category))]
+  const fromVersion = first.verification.toolVersions[composed.from]
+  const toVersion = second.verification.toolVersions[composed.to]
+  const verification: ContentVerification = {
+    toolVersions: {
+      ...(fromVersion !== undefined && { [composed.from]: fromVersion }),
+      ...(toVersion !== undefined && { [composed.to]: toVersion }),
+    },
+  }
+  const dates = [first.verification.verifiedAt, second.verification.verifiedAt]
+  const verifiedAt = dates.every((date) => date !== undefined) ? dates.sort()[0] : undefined
+
+  return {
+    kind: "glossary",
+    slug,
+    entries: composed.entries,
+    columns: { fromCommand: composed.from, toCommand: composed.to },
+    helpers: createGlossaryHelpers<GlossaryEntry, string>(composed.entries, categories),
+    verification: { ...verification, ...(verifiedAt !== undefined && { verifiedAt }) },
+    derivedFrom: { via: composed.via, sources: [first.slug, second.slug] },
+  }
+}
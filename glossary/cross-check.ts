@@ -0,0 +1,224 @@
+/**
+ * Cross-pairing consistency check for tools shared between glossaries.
+ *
+ * ZIO appears in both zio-cats and effect-zio with independently
+ * written entries. This module lines up the shared tool's APIs across
+ * glossaries and reports different call shapes for the same API,
+ * different categories, diverging notes, and APIs covered by only one
+ * of the glossaries.
+ *
+ * @example
+ * ```ts
+ * import { checkSharedTool } from "@/content/glossary/cross-check"
+ *
+ * checkSharedTool("zio").filter((issue) => issue.kind === "signature-mismatch")
+ * // [{ api: "ZIO.foreachPar", occurrences: [...], message: "..." }, ...]
+ * ```
+ *
+ * @module
+ */
+
+import type { ToolId } from "../tools"
+import { normalizeCommand } from "./compose"
+import { type GlossaryReference, getReferences } from "./index"
+import { commandForTool } from "./lookup"
+
+/**
+ * Kinds of cross-glossary problems.
+ *
+ * - `signature-mismatch`: the same API is written with different call shapes
+ * - `category-mismatch`: the same API is filed under different categories
+ * - `note-divergence`: the notes for the same API share few words
+ * - `missing`: the API is covered by some glossaries but not others
+ */
+export type CrossCheckIssueKind = "signature-mismatch" | "category-mismatch" | "note-divergence" | "missing"
+
+/**
+ * One glossary entry mentioning a shared API.
+ */
+export interface ApiOccurrence {
+  /** Glossary slug */
+  readonly slug: string
+  /** Entry id */
+  readonly id: string
+  /** Command as written for the shared tool */
+  readonly command: string
+  /** Entry category */
+  readonly category: string
+  /** Entry note */
+  readonly note: string
+}
+
+/**
+ * A single cross-glossary problem.
+ */
+export interface CrossCheckIssue {
+  /** Kind of problem */
+  readonly kind: CrossCheckIssueKind
+  /** Shared tool */
+  readonly tool: ToolId
+  /** Normalized API name (e.g., "ZIO.foreachPar") */
+  readonly api: string
+  /** Every entry mentioning the API */
+  readonly occurrences: readonly ApiOccurrence[]
+  /** Human-readable description */
+  readonly message: string
+}
+
+/**
+ * Options for {@link checkSharedTool}.
+ */
+export interface CrossCheckOptions {
+  /** Word-overlap ratio below which notes are reported as diverging (default 0.2) */
+  readonly noteSimilarity?: number
+}
+
+/**
+ * Reduce a command to its API name by dropping arguments and type parameters.
+ *
+ * @param command - The command as written in a glossary.
+ * @returns The API name (e.g., `ZIO.foreachPar(list)(f)` → `ZIO.foreachPar`).
+ */
+export function apiName(command: string): string {
+  return normalizeCommand(command).replace(/[()[\]{}]/g, "")
+}
+
+function noteWords(note: string): ReadonlySet<string> {
+  return new Set(
+    note
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length > 2),
+  )
+}
+
+/**
+ * Word-overlap (Jaccard) similarity of two notes.
+ *
+ * @returns A ratio between 0 (no shared words) and 1 (same words); 1 if both are empty.
+ */
+export function noteSimilarity(a: string, b: string): number {
+  const left = noteWords(a)
+  const right = noteWords(b)
+  if (left.size === 0 && right.size === 0) {
+    return 1
+  }
+  const shared = [...left].filter((word) => right.has(word)).length
+  return shared / (left.size + right.size - shared)
+}
+
+/**
+ * Get the comparison glossaries that cover a tool.
+ *
+ * @param tool - The tool id.
+ * @returns Glossaries with the tool in either column (derived glossaries excluded).
+ */
+export function glossariesForTool(tool: ToolId): readonly GlossaryReference[] {
+  return getReferences().filter(
+    (reference): reference is GlossaryReference =>
+      reference.kind === "glossary" && (reference.columns.fromCommand === tool || reference.columns.toCommand === tool),
+  )
+}
+
+/**
+ * Check the entries of a shared tool across every glossary that covers it.
+ *
+ * @param tool - The shared tool (e.g., "zio").
+ * @param options - Thresholds.
+ * @returns Problems found, grouped by API in first-seen order.
+ */
+export function checkSharedTool(tool: ToolId, options: CrossCheckOptions = {}): readonly CrossCheckIssue[] {
+  const threshold = options.noteSimilarity ?? 0.2
+  const glossaries = glossariesForTool(tool)
+  if (glossaries.length < 2) {
+    return []
+  }
+
+  const byApi = new Map<string, ApiOccurrence[]>()
+  for (const reference of glossaries) {
+    for (const entry of reference.entries) {
+      const command = commandForTool(reference, entry, tool) ?? ""
+      const api = apiName(command)
+      const list = byApi.get(api) ?? []
+      list.push({ slug: reference.slug, id: entry.id, command, category: entry.category, note: entry.note })
+      byApi.set(api, list)
+    }
+  }
+
+  const issues: CrossCheckIssue[] = []
+  const slugs = glossaries.map((reference) => reference.slug)
+
+  for (const [api, occurrences] of byApi) {
+    const present = new Set(occurrences.map((occurrence) => occurrence.slug))
+    if (present.size < slugs.length) {
+      const missing = slugs.filter((slug) => !present.has(slug))
+      issues.push({
+        kind: "missing",
+        tool,
+        api,
+        occurrences,
+        message: `${api} is covered by ${[...present].join(", ")} but missing from ${missing.join(", ")}`,
+      })
+      continue
+    }
+
+    const shapes = new Set(occurrences.map((occurrence) => normalizeCommand(occurrence.command)))
+    if (shapes.size > 1) {
+      issues.push({
+        kind: "signature-mismatch",
+        tool,
+        api,
+        occurrences,
+        message: `${api} is written as ${occurrences.map((o) => `"${o.command}" (${o.slug})`).join(", ")}`,
+      })
+    }
+
+    const categories = new Set(occurrences.map((occurrence) => occurrence.category))
+    if (categories.size > 1) {
+      issues.push({
+        kind: "category-mismatch",
+        tool,
+        api,
+        occurrences,
+        message: `${api} is filed under ${occurrences.map((o) => `${o.category} (${o.slug})`).join(", ")}`,
+      })
+    }
+
+    // Compare notes across glossaries only; repeated rows within one glossary are the validator's concern.
+    for (const [index, left] of occurrences.entries()) {
+      const right = occurrences.slice(index + 1).find((other) => other.slug !== left.slug)
+      if (right && noteSimilarity(left.note, right.note) < threshold) {
+        issues.push({
+          kind: "note-divergence",
+          tool,
+          api,
+          occurrences: [left, right],
+          message: `${api} notes diverge: "${left.note}" (${left.slug}) vs "${right.note}" (${right.slug})`,
+        })
+        break
+      }
+    }
+  }
+
+  return issues
+}
+
+/**
+ * Check every tool covered by more than one glossary.
+ *
+ * @param options - Thresholds.
+ * @returns Problems found across all shared tools.
+ */
+export function checkSharedTools(options: CrossCheckOptions = {}): readonly CrossCheckIssue[] {
+  const counts = new Map<ToolId, number>()
+  for (const reference of getReferences()) {
+    if (reference.kind !== "glossary") continue
+    for (const tool of [reference.columns.fromCommand, reference.columns.toCommand]) {
+      counts.set(tool, (counts.get(tool) ?? 0) + 1)
+    }
+  }
+
+  return [...counts]
+    .filter(([, count]) => count > 1)
+    .flatMap(([tool]) => checkSharedTool(tool, options))
+}
@@ -4,7 +4,8 @@
  * Maps ZIO concepts to their Effect.TS equivalents.
  */
 
-import type { GlossaryEntry as SharedGlossaryEntry } from "./types"
+import type { ContentVerification } from "../tools"
+import { type GlossaryEntry as SharedGlossaryEntry, createGlossaryHelpers } from "./types"
 
 /**
  * Glossary category types for concept groupings.
@@ -29,41 +30,48 @@ export interface GlossaryEntry extends SharedGlossaryEntry {
   readonly category: GlossaryCategory
 }
 
+/**
+ * Tool versions the Effect ← ZIO glossary targets.
+ */
+export const verification: ContentVerification = {
+  toolVersions: { zio: "2", effect: "3" },
+}
+
 const effectZioGlossary: readonly GlossaryEntry[] = [
   // CORE
   {
     id: "core-1",
     category: "CORE",
-    fromCommand: "Effect<A, E, R>",
-    toCommand: "ZIO[-R, +E, +A]",
+    fromCommand: "ZIO[-R, +E, +A]",
+    toCommand: "Effect<A, E, R>",
     note: "Type parameter order is different: Effect puts Success (A) first, while ZIO puts Environment (R) first",
   },
   {
     id: "core-2",
     category: "CORE",
-    fromCommand: "Effect.succeed(x)",
-    toCommand: "ZIO.succeed(x)",
+    fromCommand: "ZIO.succeed(x)",
+    toCommand: "Effect.succeed(x)",
     note: "Creates a successful effect with the given value",
   },
   {
     id: "core-3",
     category: "CORE",
-    fromCommand: "Effect.fail(e)",
-    toCommand: "ZIO.fail(e)",
+    fromCommand: "ZIO.fail(e)",
+    toCommand: "Effect.fail(e)",
     note: "Creates a failed effect with the given error",
   },
   {
     id: "core-4",
     category: "CORE",
-    fromCommand: "Effect.try(() => ...)",
-    toCommand: "ZIO.attempt(...)",
+    fromCommand: "ZIO.attempt(...)",
+    toCommand: "Effect.try(() => ...)",
     note: "Wraps a synchronous operation that may throw",
   },
   {
     id: "core-5",
     category: "CORE",
-    fromCommand: "Effect.sync(() => ...)",
-    toCommand: "ZIO.suspend(...)",
+    fromCommand: "ZIO.suspend(...)",
+    toCommand: "Effect.sync(() => ...)",
     note: "Defers evaluation of a thunk (side-effecting code)",
   },
 
@@ -71,36 +79,36 @@ const effectZioGlossary: readonly GlossaryEntry[] = [
   {
     id: "errors-1",
     category: "ERRORS",
-    fromCommand: "Effect.catchAll(fa, f)",
-    toCommand: "fa.catchAll(f)",
+    fromCommand: "fa.catchAll(f)",
+    toCommand: "Effect.catchAll(fa, f)",
     note: "Handle all errors with a recovery function",
   },
   {
     id: "errors-2",
     category: "ERRORS",
-    fromCommand: "Effect.orElse(fa, () => fb)",
-    toCommand: "fa.orElse(fb)",
+    fromCommand: "fa.orElse(fb)",
+    toCommand: "Effect.orElse(fa, () => fb)",
     note: "Run fallback effect if first fails",
   },
   {
     id: "errors-3",
     category: "ERRORS",
-    fromCommand: "Effect.mapError(fa, f)",
-    toCommand: "fa.mapError(f)",
+    fromCommand: "fa.mapError(f)",
+    toCommand: "Effect.mapError(fa, f)",
     note: "Transform the error type",
   },
   {
     id: "errors-4",
     category: "ERRORS",
-    fromCommand: "Effect.either(fa)",
-    toCommand: "fa.either",
+    fromCommand: "fa.either",
+    toCommand: "Effect.either(fa)",
     note: "Convert Effect<A, E, R> to Effect<Either<E, A>, never, R>",
   },
   {
     id: "errors-5",
     category: "ERRORS",
-    fromCommand: "Effect.die(defect)",
-    toCommand: "ZIO.die(defect)",
+    fromCommand: "ZIO.die(defect)",
+    toCommand: "Effect.die(defect)",
     note: "Create a fatal defect (not in the typed error channel)",
   },
 
@@ -108,29 +116,29 @@ const effectZioGlossary: readonly GlossaryEntry[] = [
   {
     id: "composition-1",
     category: "COMPOSITION",
-    fromCommand: "Effect.gen(function* () { ... })",
-    toCommand: "for { ... } yield ...",
+    fromCommand: "for { ... } yield ...",
+    toCommand: "Effect.gen(function* () { ... })",
     note: "Sequential composition with generators. Use yield* to unwrap effects",
   },
   {
     id: "composition-2",
     category: "COMPOSITION",
-    fromCommand: "yield* effect",
-    toCommand: "<- effect (in for-comprehension)",
+    fromCommand: "<- effect (in for-comprehension)",
+    toCommand: "yield* effect",
     note: "Bind/unwrap an effect in a generator",
   },
   {
     id: "composition-3",
     category: "COMPOSITION",
-    fromCommand: "Effect.map(fa, f)",
-    toCommand: "fa.map(f)",
+    fromCommand: "fa.map(f)",
+    toCommand: "Effect.map(fa, f)",
     note: "Transform the success value",
   },
   {
     id: "composition-4",
     category: "COMPOSITION",
-    fromCommand: "Effect.flatMap(fa, f)",
-    toCommand: "fa.flatMap(f)",
+    fromCommand: "fa.flatMap(f)",
+    toCommand: "Effect.flatMap(fa, f)",
     note: "Chain effects (bind)",
   },
 
@@ -138,29 +146,29 @@ const effectZioGlossary: readonly GlossaryEntry[] = [
   {
     id: "services-1",
     category: "SERVICES",
-    fromCommand: "class Tag extends Context.Tag",
-    toCommand: "ZIO.service[T]",
+    fromCommand: "ZIO.service[T]",
+    toCommand: "class Tag extends Context.Tag",
     note: "Define service tags with Context.Tag class pattern",
   },
   {
     id: "services-2",
     category: "SERVICES",
-    fromCommand: "yield* ServiceTag",
-    toCommand: "ZIO.service[ServiceType]",
+    fromCommand: "ZIO.service[ServiceType]",
+    toCommand: "yield* ServiceTag",
     note: "Access a service in Effect.gen",
   },
   {
     id: "services-3",
     category: "SERVICES",
-    fromCommand: "Layer.succeed(Tag, impl)",
-    toCommand: "ZLayer.succeed(impl)",
+    fromCommand: "ZLayer.succeed(impl)",
+    toCommand: "Layer.succeed(Tag, impl)",
     note: "Create a layer from a service implementation",
   },
   {
     id: "services-4",
     category: "SERVICES",
-    fromCommand: "Layer.effect(Tag, effect)",
-    toCommand: "ZLayer.fromEffect(...)",
+    fromCommand: "ZLayer.fromEffect(...)",
+    toCommand: "Layer.effect(Tag, effect)",
     note: "Create a layer from an effect",
   },
 
@@ -168,29 +176,29 @@ const effectZioGlossary: readonly GlossaryEntry[] = [
   {
     id: "layers-1",
     category: "LAYERS",
-    fromCommand: "Layer.provide(inner, outer)",
-    toCommand: "outer >>> inner",
+    fromCommand: "outer >>> inner",
+    toCommand: "Layer.provide(inner, outer)",
     note: "Horizontal layer composition (dependencies)",
   },
   {
     id: "layers-2",
     category: "LAYERS",
-    fromCommand: "Layer.merge(layer1, layer2)",
-    toCommand: "layer1 ++ layer2",
+    fromCommand: "layer1 ++ layer2",
+    toCommand: "Layer.merge(layer1, layer2)",
     note: "Vertical layer composition (merge independent layers)",
   },
   {
     id: "layers-3",
     category: "LAYERS",
-    fromCommand: "Effect.provide(effect, layer)",
-    toCommand: "effect.provideLayer(layer)",
+    fromCommand: "effect.provideLayer(layer)",
+    toCommand: "Effect.provide(effect, layer)",
     note: "Provide layers to an effect",
   },
   {
     id: "layers-4",
     category: "LAYERS",
-    fromCommand: "Layer.scoped(Tag, effect)",
-    toCommand: "ZLayer.scoped(...)",
+    fromCommand: "ZLayer.scoped(...)",
+    toCommand: "Layer.scoped(Tag, effect)",
     note: "Create a layer with scoped resource management",
   },
 
@@ -198,36 +206,36 @@ const effectZioGlossary: readonly GlossaryEntry[] = [
   {
     id: "concurrency-1",
     category: "CONCURRENCY",
-    fromCommand: "Effect.fork(fa)",
-    toCommand: "fa.fork",
+    fromCommand: "fa.fork",
+    toCommand: "Effect.fork(fa)",
     note: "Run effect concurrently in a fiber",
   },
   {
     id: "concurrency-2",
     category: "CONCURRENCY",
-    fromCommand: "Fiber.join(fiber)",
-    toCommand: "fiber.join",
+    fromCommand: "fiber.join",
+    toCommand: "Fiber.join(fiber)",
     note: "Wait for fiber to complete and get result",
   },
   {
     id: "concurrency-3",
     category: "CONCURRENCY",
-    fromCommand: "Fiber.interrupt(fiber)",
-    toCommand: "fiber.interrupt",
+    fromCommand: "fiber.interrupt",
+    toCommand: "Fiber.interrupt(fiber)",
     note: "Cancel a running fiber",
   },
   {
     id: "concurrency-4",
     category: "CONCURRENCY",
-    fromCommand: "Effect.all(effects, { concurrency })",
-    toCommand: "ZIO.collectAllPar(effects)",
+    fromCommand: "ZIO.collectAllPar(effects)",
+    toCommand: "Effect.all(effects, { concurrency })",
     note: "Run effects in parallel with concurrency control",
   },
   {
     id: "concurrency-5",
     category: "CONCURRENCY",
-    fromCommand: "Effect.race(fa, fb)",
-    toCommand: "fa.race(fb)",
+    fromCommand: "fa.race(fb)",
+    toCommand: "Effect.race(fa, fb)",
     note: "Run both effects, return result of first to succeed",
   },
   {
@@ -240,8 +248,8 @@ const effectZioGlossary: readonly GlossaryEntry[] = [
   {
     id: "concurrency-7",
     category: "CONCURRENCY",
-    fromCommand: "Ref.get/set/update(ref, ...)",
-    toCommand: "ref.get/set/update",
+    fromCommand: "ref.get/set/update",
+    toCommand: "Ref.get/set/update(ref, ...)",
     note: "Atomic operations on Ref",
   },
 
@@ -249,36 +257,36 @@ const effectZioGlossary: readonly GlossaryEntry[] = [
   {
     id: "streaming-1",
     category: "STREAMING",
-    fromCommand: "Stream<A, E, R>",
-    toCommand: "ZStream[-R, +E, +O]",
+    fromCommand: "ZStream[-R, +E, +O]",
+    toCommand: "Stream<A, E, R>",
     note: "Stream type with Output (A) first, unlike ZStream",
   },
   {
     id: "streaming-2",
     category: "STREAMING",
-    fromCommand: "Stream.succeed(...)",
-    toCommand: "ZStream(...)",
+    fromCommand: "ZStream(...)",
+    toCommand: "Stream.succeed(...)",
     note: "Create stream from values",
   },
   {
     id: "streaming-3",
     category: "STREAMING",
-    fromCommand: "Stream.map/flatMap/filter(stream, f)",
-    toCommand: "stream.map/flatMap/filter",
+    fromCommand: "stream.map/flatMap/filter",
+    toCommand: "Stream.map/flatMap/filter(stream, f)",
     note: "Stream transformations use pipe syntax",
   },
   {
     id: "streaming-4",
     category: "STREAMING",
-    fromCommand: "Stream.runCollect(stream)",
-    toCommand: "stream.runCollect",
+    fromCommand: "stream.runCollect",
+    toCommand: "Stream.runCollect(stream)",
     note: "Collect stream elements into array",
   },
   {
     id: "streaming-5",
     category: "STREAMING",
-    fromCommand: "Sink.count/last/...",
-    toCommand: "ZSink.count/last/...",
+    fromCommand: "ZSink.count/last/...",
+    toCommand: "Sink.count/last/...",
     note: "Aggregators for stream consumption",
   },
 
@@ -286,22 +294,22 @@ const effectZioGlossary: readonly GlossaryEntry[] = [
   {
     id: "schema-1",
     category: "SCHEMA",
-    fromCommand: "Schema<A>",
-    toCommand: "Schema[A]",
+    fromCommand: "Schema[A]",
+    toCommand: "Schema<A>",
     note: "Runtime type validation and transformation",
   },
   {
     id: "schema-2",
     category: "SCHEMA",
-    fromCommand: "Schema.decodeUnknown(schema)(data)",
-    toCommand: "schema.decode(data)",
+    fromCommand: "schema.decode(data)",
+    toCommand: "Schema.decodeUnknown(schema)(data)",
     note: "Parse/validate unknown data into typed value",
   },
   {
     id: "schema-3",
     category: "SCHEMA",
-    fromCommand: "Schema.optional(Schema.String)",
-    toCommand: "Option[String]",
+    fromCommand: "Option[String]",
+    toCommand: "Schema.optional(Schema.String)",
     note: "Optional/nullable field in schema",
   },
 
@@ -309,22 +317,22 @@ const effectZioGlossary: readonly GlossaryEntry[] = [
   {
     id: "http-1",
     category: "HTTP",
-    fromCommand: "HttpClient service",
-    toCommand: "Client.service (ZIO HTTP)",
+    fromCommand: "Client.service (ZIO HTTP)",
+    toCommand: "HttpClient service",
     note: "HTTP client service from @effect/platform",
   },
   {
     id: "http-2",
     category: "HTTP",
-    fromCommand: "client.get/post(url, options)",
-    toCommand: "Client.get/post(url, ...)",
+    fromCommand: "Client.get/post(url, ...)",
+    toCommand: "client.get/post(url, options)",
     note: "HTTP methods return HttpClientResponse effect",
   },
   {
     id: "http-3",
     category: "HTTP",
-    fromCommand: "response.json/text",
-    toCommand: "response.body.asString",
+    fromCommand: "response.body.asString",
+    toCommand: "response.json/text",
     note: "Get response body as parsed JSON or text",
   },
 
@@ -332,26 +340,49 @@ const effectZioGlossary: readonly GlossaryEntry[] = [
   {
     id: "sql-1",
     category: "SQL",
-    fromCommand: "SqlClient service",
-    toCommand: "JdbcService (ZIO JDBC)",
+    fromCommand: "JdbcService (ZIO JDBC)",
+    toCommand: "SqlClient service",
     note: "Database client service from @effect/sql",
   },
   {
     id: "sql-2",
     category: "SQL",
-    fromCommand: "sql`SELECT ... WHERE id = ${id}`",
-    toCommand: 'sql"SELECT ... WHERE id = $id"',
+    fromCommand: 'sql"SELECT ... WHERE id = $id"',
+    toCommand: "sql`SELECT ... WHERE id = ${id}`",
     note: "Template literal SQL with automatic parameterization",
   },
   {
     id: "sql-3",
     category: "SQL",
-    fromCommand: "SqlClient.transaction(effect)",
-    toCommand: "jdbc.transaction { ... }",
+    fromCommand: "jdbc.transaction { ... }",
+    toCommand: "SqlClient.transaction(effect)",
     note: "Run effects in a database transaction",
   },
 ]
 
+/**
+ * Display order of categories.
+ */
+const categoryOrder: readonly GlossaryCategory[] = [
+  "CORE",
+  "ERRORS",
+  "COMPOSITION",
+  "SERVICES",
+  "LAYERS",
+  "CONCURRENCY",
+  "STREAMING",
+  "SCHEMA",
+  "HTTP",
+  "SQL",
+]
+
+/**
+ * Options for the effect-zio helpers: its search has always matched category names too.
+ */
+export const helperOptions = { searchCategory: true } as const
+
+const helpers = createGlossaryHelpers(effectZioGlossary, categoryOrder, helperOptions)
+
 /**
  * Get all glossary entries for effect-zio.
  */
@@ -378,15 +409,34 @@ export function getEffectZioGlossaryByCategory(): Record<string, readonly Glossa
  * Search effect-zio glossary entries.
  */
 export function searchEffectZioGlossary(query: string): readonly GlossaryEntry[] {
-  const lowerQuery = query.toLowerCase()
+  return helpers.searchEntries(effectZioGlossary, query)
+}
+
+/**
+ * Get all unique categories from glossary entries, in display order.
+ */
+export function getCategories(): readonly GlossaryCategory[] {
+  return helpers.getCategories()
+}
+
+/**
+ * Filter glossary entries by category.
+ */
+export function filterByCategory(
+  entries: readonly GlossaryEntry[],
+  category: GlossaryCategory,
+): readonly GlossaryEntry[] {
+  return helpers.filterByCategory(entries, category)
+}
 
-  return effectZioGlossary.filter(
-    (entry) =>
-      entry.fromCommand.toLowerCase().includes(lowerQuery) ||
-      entry.toCommand.toLowerCase().includes(lowerQuery) ||
-      entry.category.toLowerCase().includes(lowerQuery) ||
-      entry.note.toLowerCase().includes(lowerQuery),
-  )
+/**
+ * Search glossary entries by query string.
+ *
+ * Searches across fromCommand, toCommand, note, and category fields.
+ * Case-insensitive partial matching.
+ */
+export function searchEntries(entries: readonly GlossaryEntry[], query: string): readonly GlossaryEntry[] {
+  return helpers.searchEntries(entries, query)
 }
 
 export default effectZioGlossary
@@ -0,0 +1,330 @@
+/**
+ * Glossary and cheat sheet exporters.
+ *
+ * Renders any reference (or a subset of its entries, such as search
+ * results) as Markdown tables, CSV, stable JSON, or a self-contained
+ * printable HTML page. Entries are grouped by the reference's
+ * `getCategories()` order and columns are labelled and colored from the
+ * tool registry.
+ *
+ * @example
+ * ```ts
+ * import { getReference } from "@/content/glossary"
+ * import { toHtml, toMarkdown } from "@/content/glossary/export"
+ *
+ * const reference = getReference("jj-git")
+ * if (reference) {
+ *   toMarkdown(reference)
+ *   toHtml(reference, { entries: reference.helpers.searchEntries(reference.entries, "rebase") })
+ * }
+ * ```
+ *
+ * @module
+ */
+
+import { getEntry, isTutorial } from "../pairings"
+import { type ToolId, getTool } from "../tools"
+import type { Reference } from "./index"
+import type { CheatSheetEntry, GlossaryEntry } from "./types"
+
+/**
+ * Supported export formats.
+ */
+export type ExportFormat = "markdown" | "csv" | "json" | "html"
+
+/**
+ * Options shared by every exporter.
+ */
+export interface ExportOptions {
+  /** Entries to export instead of the whole reference (must belong to it) */
+  readonly entries?: readonly (GlossaryEntry | CheatSheetEntry)[]
+  /** Page or document title (default: derived from the column tools) */
+  readonly title?: string
+}
+
+/**
+ * A column of an exported table.
+ */
+export interface ExportColumn {
+  /** Entry field the column reads */
+  readonly field: "fromCommand" | "toCommand" | "command" | "description" | "note"
+  /** Header label */
+  readonly label: string
+  /** Tool the column holds, for command columns */
+  readonly tool?: ToolId
+  /** Brand color of that tool */
+  readonly color?: string
+  /** `true` if the cells are commands or code */
+  readonly code: boolean
+}
+
+/**
+ * Entries of one category, in display order.
+ */
+export interface ExportGroup {
+  /** Category as written in the data (e.g., "COPY_MODE") */
+  readonly category: string
+  /** Human-readable category label (e.g., "Copy Mode") */
+  readonly label: string
+  /** Entry ids and cell values, in column order */
+  readonly rows: readonly { readonly id: string; readonly cells: readonly string[] }[]
+}
+
+/**
+ * Format-independent table built from a reference.
+ */
+export interface ExportTable {
+  /** Reference slug */
+  readonly slug: string
+  /** Document title */
+  readonly title: string
+  /** Columns, in display order */
+  readonly columns: readonly ExportColumn[]
+  /** Groups in `getCategories()` order; empty categories are omitted */
+  readonly groups: readonly ExportGroup[]
+}
+
+function commandColumn(field: ExportColumn["field"], tool: ToolId): ExportColumn {
+  const { name, color } = getTool(tool)
+  return { field, label: name, tool, ...(color !== undefined && { color }), code: true }
+}
+
+/**
+ * Turn a category id into a label (e.g., "COPY_MODE" → "Copy Mode").
+ */
+export function formatCategory(category: string): string {
+  return category
+    .toLowerCase()
+    .split("_")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ")
+}
+
+/**
+ * Build the format-independent table for a reference.
+ *
+ * @param reference - The glossary or cheat sheet to export.
+ * @param options - Entry subset and title.
+ * @returns Columns and category groups.
+ */
+export function toExportTable(reference: Reference, options: ExportOptions = {}): ExportTable {
+  let columns: readonly ExportColumn[]
+  let title: string
+
+  if (reference.kind === "glossary") {
+    const from = commandColumn("fromCommand", reference.columns.fromCommand)
+    const to = commandColumn("toCommand", reference.columns.toCommand)
+    columns = [from, to, { field: "note", label: "Note", code: false }]
+    title = `${from.label} ↔ ${to.label}`
+  } else {
+    const entry = getEntry(reference.slug)
+    const tool = entry && isTutorial(entry) ? entry.tool : null
+    columns = [
+      tool ? commandColumn("command", tool) : { field: "command", label: "Command", code: true },
+      { field: "description", label: "Description", code: false },
+      { field: "note", label: "Note", code: false },
+    ]
+    title = tool ? `${getTool(tool).name} cheat sheet` : reference.slug
+  }
+
+  const entries = options.entries ?? reference.entries
+  const groups = reference.helpers.getCategories().flatMap((category) => {
+    const rows = entries
+      .filter((entry) => entry.category === category)
+      .map((entry) => {
+        const fields: { readonly [field in ExportColumn["field"]]?: string } = entry
+        return { id: entry.id, cells: columns.map((column) => fields[column.field] ?? "") }
+      })
+    return rows.length > 0 ? [{ category, label: formatCategory(category), rows }] : []
+  })
+
+  return { slug: reference.slug, title: options.title ?? title, columns, groups }
+}
+
+function markdownCell(value: string, code: boolean): string {
+  const escaped = value.replace(/\|/g, "\\|").replace(/\n/g, " ")
+  if (!code || !escaped) {
+    return escaped
+  }
+  // A code span containing backticks needs a longer fence and padding.
+  return escaped.includes("`") ? `\`\` ${escaped} \`\`` : `\`${escaped}\``
+}
+
+/**
+ * Export a reference as Markdown: a heading per category, each with a table.
+ *
+ * @param reference - The glossary or cheat sheet to export.
+ * @param options - Entry subset and title.
+ * @returns Markdown source ending with a newline.
+ */
+export function toMarkdown(reference: Reference, options: ExportOptions = {}): string {
+  const table = toExportTable(reference, options)
+  const header = `| ${table.columns.map((column) => column.label).join(" | ")} |`
+  const divider = `| ${table.columns.map(() => "---").join(" | ")} |`
+
+  const sections = table.groups.map((group) => {
+    const rows = group.rows.map(
+      (row) => `| ${row.cells.map((cell, index) => markdownCell(cell, table.columns[index]?.code ?? false)).join(" | ")} |`,
+    )
+    return [`## ${group.label}`, "", header, divider, ...rows].join("\n")
+  })
+
+  return `${[`# ${table.title}`, ...sections].join("\n\n")}\n`
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * Export a reference as CSV (RFC 4180) with `category` and `id` columns first.
+ *
+ * @param reference - The glossary or cheat sheet to export.
+ * @param options - Entry subset and title (the title is not part of CSV output).
+ * @returns CSV text with CRLF line endings.
+ */
+export function toCsv(reference: Reference, options: ExportOptions = {}): string {
+  const table = toExportTable(reference, options)
+  const lines = [
+    ["category", "id", ...table.columns.map((column) => column.label)],
+    ...table.groups.flatMap((group) => group.rows.map((row) => [group.category, row.id, ...row.cells])),
+  ]
+  return lines.map((line) => line.map(csvField).join(",")).join("\r\n") + "\r\n"
+}
+
+/**
+ * Export a reference as JSON.
+ *
+ * Output is stable: keys are written in a fixed order, groups follow
+ * the category order and entries keep their data order, so unchanged
+ * data produces byte-identical files.
+ *
+ * @param reference - The glossary or cheat sheet to export.
+ * @param options - Entry subset and title.
+ * @returns Pretty-printed JSON ending with a newline.
+ */
+export function toJson(reference: Reference, options: ExportOptions = {}): string {
+  const table = toExportTable(reference, options)
+  const document = {
+    slug: table.slug,
+    kind: reference.kind,
+    title: table.title,
+    verification: {
+      toolVersions: Object.fromEntries(Object.entries(reference.verification.toolVersions).sort()),
+      verifiedAt: reference.verification.verifiedAt ?? null,
+    },
+    columns: table.columns.map((column) => ({
+      field: column.field,
+      label: column.label,
+      tool: column.tool ?? null,
+      color: column.color ?? null,
+    })),
+    categories: table.groups.map((group) => ({
+      category: group.category,
+      label: group.label,
+      entries: group.rows.map((row) => ({
+        id: row.id,
+        ...Object.fromEntries(table.columns.map((column, index) => [column.field, row.cells[index] ?? ""])),
+      })),
+    })),
+  }
+  return `${JSON.stringify(document, null, 2)}\n`
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+}
+
+const htmlStyles = `
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #111; }
+  h1 { font-size: 1.5rem; margin: 0 0 1rem; }
+  h2 { font-size: 1.1rem; margin: 1.5rem 0 0.5rem; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.85rem; }
+  th, td { text-align: left; vertical-align: top; padding: 0.3rem 0.5rem; border-bottom: 1px solid #ddd; }
+  th { border-bottom: 3px solid #999; }
+  code { font-family: ui-monospace, monospace; white-space: pre-wrap; }
+  section { break-inside: avoid; page-break-inside: avoid; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } }
+`
+
+/**
+ * Export a reference as a self-contained, printable HTML page.
+ *
+ * Styles are inlined and there are no external assets. Column headers
+ * are underlined in each tool's registry color.
+ *
+ * @param reference - The glossary or cheat sheet to export.
+ * @param options - Entry subset and title.
+ * @returns A complete HTML document.
+ */
+export function toHtml(reference: Reference, options: ExportOptions = {}): string {
+  const table = toExportTable(reference, options)
+  const header = table.columns
+    .map((column) => {
+      const style = column.color ? ` style="border-bottom-color: ${column.color}"` : ""
+      return `<th${style}>${escapeHtml(column.label)}</th>`
+    })
+    .join("")
+
+  const sections = table.groups.map((group) => {
+    const rows = group.rows.map((row) => {
+      const cells = row.cells.map((cell, index) =>
+        table.columns[index]?.code && cell ? `<td><code>${escapeHtml(cell)}</code></td>` : `<td>${escapeHtml(cell)}</td>`,
+      )
+      return `      <tr id="${escapeHtml(row.id)}">${cells.join("")}</tr>`
+    })
+    return [
+      "  <section>",
+      `    <h2>${escapeHtml(group.label)}</h2>`,
+      "    <table>",
+      `      <thead><tr>${header}</tr></thead>`,
+      "      <tbody>",
+      ...rows,
+      "      </tbody>",
+      "    </table>",
+      "  </section>",
+    ].join("\n")
+  })
+
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '  <meta charset="utf-8">',
+    `  <title>${escapeHtml(table.title)}</title>`,
+    `  <style>${htmlStyles}</style>`,
+    "</head>",
+    "<body>",
+    `  <h1>${escapeHtml(table.title)}</h1>`,
+    ...sections,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n")
+}
+
+/**
+ * Export a reference in the given format.
+ *
+ * @param reference - The glossary or cheat sheet to export.
+ * @param format - Output format.
+ * @param options - Entry subset and title.
+ * @returns The exported document.
+ */
+export function exportReference(reference: Reference, format: ExportFormat, options: ExportOptions = {}): string {
+  switch (format) {
+    case "markdown":
+      return toMarkdown(reference, options)
+    case "csv":
+      return toCsv(reference, options)
+    case "json":
+      return toJson(reference, options)
+    case "html":
+      return toHtml(reference, options)
+  }
+}
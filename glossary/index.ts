@@ -0,0 +1,186 @@
+/**
+ * Reference data registry.
+ *
+ * Resolves any entry slug to its reference data: a comparison glossary
+ * for pairings or a cheat sheet for single-tool tutorials, so callers
+ * never hardcode imports of individual glossary modules.
+ *
+ * @example
+ * ```ts
+ * import { getReference } from "@/content/glossary"
+ *
+ * const reference = getReference("jj-git")
+ * if (reference?.kind === "glossary") {
+ *   reference.helpers.searchEntries(reference.entries, "rebase")
+ * }
+ * ```
+ *
+ * @module
+ */
+
+import type { ContentVerification, ToolId } from "../tools"
+import { composeGlossaries, deriveReference } from "./compose"
+import * as effectZio from "./effect-zio"
+import * as jjGit from "./jj-git"
+import * as tmux from "./tmux"
+import * as zioCats from "./zio-cats"
+import {
+  type CheatSheetEntry,
+  type GlossaryEntry,
+  type ReferenceHelpers,
+  createCheatSheetHelpers,
+  createGlossaryHelpers,
+} from "./types"
+
+/**
+ * Comparison glossary for a tool pairing.
+ */
+export interface GlossaryReference {
+  /** Discriminator */
+  readonly kind: "glossary"
+  /** Entry slug */
+  readonly slug: string
+  /** All glossary entries */
+  readonly entries: readonly GlossaryEntry[]
+  /** Tool each command column belongs to */
+  readonly columns: {
+    readonly fromCommand: ToolId
+    readonly toCommand: ToolId
+  }
+  /** Category, filter and search helpers */
+  readonly helpers: ReferenceHelpers<GlossaryEntry, string>
+  /** Tool versions the glossary targets */
+  readonly verification: ContentVerification
+  /** Source glossaries, when this glossary was composed from two others */
+  readonly derivedFrom?: {
+    readonly via: ToolId
+    readonly sources: readonly [string, string]
+  }
+}
+
+/**
+ * Cheat sheet for a single-tool tutorial.
+ */
+export interface CheatSheetReference {
+  /** Discriminator */
+  readonly kind: "cheat-sheet"
+  /** Entry slug */
+  readonly slug: string
+  /** All cheat sheet entries */
+  readonly entries: readonly CheatSheetEntry[]
+  /** Category, filter and search helpers */
+  readonly helpers: ReferenceHelpers<CheatSheetEntry, string>
+  /** Tool versions the cheat sheet targets */
+  readonly verification: ContentVerification
+}
+
+/**
+ * Reference data for any entry.
+ */
+export type Reference = GlossaryReference | CheatSheetReference
+
+function glossary(
+  slug: string,
+  entries: readonly GlossaryEntry[],
+  columns: GlossaryReference["columns"],
+  categories: readonly string[],
+  verification: ContentVerification,
+  helperOptions: Parameters<typeof createGlossaryHelpers>[2] = {},
+): GlossaryReference {
+  return {
+    kind: "glossary",
+    slug,
+    entries,
+    columns,
+    helpers: createGlossaryHelpers(entries, categories, helperOptions),
+    verification,
+  }
+}
+
+function cheatSheet(
+  slug: string,
+  entries: readonly CheatSheetEntry[],
+  categories: readonly string[],
+  verification: ContentVerification,
+): CheatSheetReference {
+  return { kind: "cheat-sheet", slug, entries, helpers: createCheatSheetHelpers(entries, categories), verification }
+}
+
+/**
+ * Reference data of every entry, in registry order.
+ */
+const references: readonly Reference[] = [
+  glossary(
+    "zio-cats",
+    zioCats.zioCatsGlossary,
+    { fromCommand: "cats-effect", toCommand: "zio" },
+    zioCats.getCategories(),
+    zioCats.verification,
+  ),
+  glossary(
+    "jj-git",
+    jjGit.jjGitGlossary,
+    { fromCommand: "git", toCommand: "jj" },
+    jjGit.getCategories(),
+    jjGit.verification,
+  ),
+  glossary(
+    "effect-zio",
+    effectZio.getEffectZioGlossary(),
+    { fromCommand: "zio", toCommand: "effect" },
+    effectZio.getCategories(),
+    effectZio.verification,
+    effectZio.helperOptions,
+  ),
+  cheatSheet("tmux", tmux.tmuxCheatSheet, tmux.getCategories(), tmux.verification),
+]
+
+/**
+ * Glossaries composed from two published ones, resolved like regular references.
+ *
+ * - `effect-cats`: Cats Effect → Effect, joined on ZIO (zio-cats + effect-zio)
+ */
+const derivedReferences: readonly GlossaryReference[] = [derive("effect-cats", "zio-cats", "effect-zio")]
+
+function derive(slug: string, firstSlug: string, secondSlug: string): GlossaryReference {
+  const first = references.find((reference) => reference.slug === firstSlug)
+  const second = references.find((reference) => reference.slug === secondSlug)
+  if (first?.kind !== "glossary" || second?.kind !== "glossary") {
+    throw new Error(`Derived glossary "${slug}" needs two comparison glossaries`)
+  }
+  return deriveReference(slug, composeGlossaries(first, second), first, second)
+}
+
+/**
+ * Get the reference data of an entry.
+ *
+ * @param slug - The entry slug (e.g., "jj-git", "tmux").
+ * @returns The glossary or cheat sheet if found, `null` otherwise.
+ */
+export function getReference(slug: string): Reference | null {
+  return (
+    references.find((reference) => reference.slug === slug) ??
+    derivedReferences.find((reference) => reference.slug === slug) ??
+    null
+  )
+}
+
+/**
+ * Get the reference data of every entry that has one.
+ *
+ * Derived glossaries are not included; see {@link getDerivedReferences}.
+ *
+ * @returns References in registry order.
+ */
+export function getReferences(): readonly Reference[] {
+  return references
+}
+
+/**
+ * Get every glossary composed from two others.
+ *
+ * @returns Derived references.
+ */
+export function getDerivedReferences(): readonly GlossaryReference[] {
+  return derivedReferences
+}
@@ -7,7 +7,8 @@
  * @module
  */
 
-import type { GlossaryEntry as SharedGlossaryEntry } from "./types"
+import type { ContentVerification } from "../tools"
+import { type GlossaryEntry as SharedGlossaryEntry, createGlossaryHelpers } from "./types"
 
 /**
  * Glossary category types for command groupings.
@@ -33,11 +34,19 @@ export interface GlossaryEntry extends SharedGlossaryEntry {
   readonly category: GlossaryCategory
 }
 
+/**
+ * Tool versions the jj ← git glossary targets.
+ */
+export const verification: ContentVerification = {
+  toolVersions: { git: "2", jj: "0.22" },
+}
+
 /**
  * Complete glossary data for jj ← git comparison.
  *
- * 35 command mappings organized by functional category with notes
- * for important differences.
+ * 38 command mappings organized by functional category with notes
+ * for important differences. Entries that are not one command to one
+ * command also carry `fromMapping` / `toMapping` (see `./mapping`).
  */
 export const jjGitGlossary: readonly GlossaryEntry[] = [
   // BASICS
@@ -104,6 +113,10 @@ export const jjGitGlossary: readonly GlossaryEntry[] = [
     fromCommand: "(start new work)",
     toCommand: "jj new",
     note: "Creates new working commit",
+    fromMapping: {
+      kind: "none",
+      explanation: "git has no command to start a change; you edit files and create the commit afterwards",
+    },
   },
   {
     id: "commits-4",
@@ -119,6 +132,24 @@ export const jjGitGlossary: readonly GlossaryEntry[] = [
     toCommand: "jj edit <commit>",
     note: "Make commit the working copy",
   },
+  {
+    id: "commits-6",
+    category: "COMMITS",
+    fromCommand: "git add <file>",
+    toCommand: "(no equivalent)",
+    note: "No staging area in jj",
+    toMapping: {
+      kind: "none",
+      explanation: "jj has no staging area: the working copy is a commit (@) and every change is recorded in it",
+    },
+  },
+  {
+    id: "commits-7",
+    category: "COMMITS",
+    fromCommand: "git stash",
+    toCommand: "jj new @-",
+    note: "No stash: the work stays in its own change (jj edit to return)",
+  },
   // HISTORY
   {
     id: "history-1",
@@ -133,6 +164,15 @@ export const jjGitGlossary: readonly GlossaryEntry[] = [
     fromCommand: "git rebase -i (split)",
     toCommand: "jj split",
     note: "Interactive split",
+    fromMapping: {
+      kind: "sequence",
+      steps: [
+        "git rebase -i <parent> (mark as edit)",
+        "git reset HEAD~",
+        "git add -p && git commit",
+        "git rebase --continue",
+      ],
+    },
   },
   {
     id: "history-3",
@@ -147,6 +187,7 @@ export const jjGitGlossary: readonly GlossaryEntry[] = [
     fromCommand: "git cherry-pick <commit>",
     toCommand: "jj new <parent>; jj squash --from <source>",
     note: "Two-step process",
+    toMapping: { kind: "sequence", steps: ["jj new <parent>", "jj squash --from <source>"] },
   },
   {
     id: "history-5",
@@ -191,6 +232,14 @@ export const jjGitGlossary: readonly GlossaryEntry[] = [
     toCommand: "jj bookmark list",
     note: "",
   },
+  {
+    id: "branches-6",
+    category: "BRANCHES",
+    fromCommand: "git checkout -b <name> <commit>",
+    toCommand: "jj new <commit>; jj bookmark create <name>",
+    note: "Start the new change on top of <commit>",
+    toMapping: { kind: "sequence", steps: ["jj new <commit>", "jj bookmark create <name>"] },
+  },
   // REMOTES
   {
     id: "remotes-1",
@@ -219,6 +268,7 @@ export const jjGitGlossary: readonly GlossaryEntry[] = [
     fromCommand: "git pull",
     toCommand: "jj git fetch; jj rebase -d <bookmark>@origin",
     note: "No pull, use fetch+rebase",
+    toMapping: { kind: "sequence", steps: ["jj git fetch", "jj rebase -d <bookmark>@origin"] },
   },
   // UNDO
   {
@@ -227,6 +277,7 @@ export const jjGitGlossary: readonly GlossaryEntry[] = [
     fromCommand: "git reflog; git reset --hard",
     toCommand: "jj undo",
     note: "Undo last operation",
+    fromMapping: { kind: "sequence", steps: ["git reflog", "git reset --hard"] },
   },
   {
     id: "undo-2",
@@ -234,6 +285,10 @@ export const jjGitGlossary: readonly GlossaryEntry[] = [
     fromCommand: "(see operation history)",
     toCommand: "jj op log",
     note: "View all operations",
+    fromMapping: {
+      kind: "none",
+      explanation: "git has no operation log; `git reflog` only records where each ref pointed",
+    },
   },
   {
     id: "undo-3",
@@ -248,6 +303,7 @@ export const jjGitGlossary: readonly GlossaryEntry[] = [
     fromCommand: "git revert <commit>",
     toCommand: 'jj new <commit>; jj new; jj describe -m "Revert"',
     note: "Manual revert process",
+    toMapping: { kind: "sequence", steps: ["jj new <commit>", "jj new", 'jj describe -m "Revert"'] },
   },
   // CONFLICTS
   {
@@ -295,6 +351,22 @@ export const jjGitGlossary: readonly GlossaryEntry[] = [
   },
 ] as const
 
+/**
+ * Display order of categories.
+ */
+const categoryOrder: readonly GlossaryCategory[] = [
+  "BASICS",
+  "COMMITS",
+  "HISTORY",
+  "BRANCHES",
+  "REMOTES",
+  "UNDO",
+  "CONFLICTS",
+  "ADVANCED",
+]
+
+const helpers = createGlossaryHelpers(jjGitGlossary, categoryOrder)
+
 /**
  * Get all unique categories from glossary entries.
  *
@@ -309,24 +381,7 @@ export const jjGitGlossary: readonly GlossaryEntry[] = [
  * ```
  */
 export function getCategories(): readonly GlossaryCategory[] {
-  const categoryOrder: readonly GlossaryCategory[] = [
-    "BASICS",
-    "COMMITS",
-    "HISTORY",
-    "BRANCHES",
-    "REMOTES",
-    "UNDO",
-    "CONFLICTS",
-    "ADVANCED",
-  ]
-
-  const categories = new Set<GlossaryCategory>()
-  for (const entry of jjGitGlossary) {
-    categories.add(entry.category)
-  }
-
-  // Return in defined order
-  return categoryOrder.filter((cat) => categories.has(cat))
+  return helpers.getCategories()
 }
 
 /**
@@ -348,7 +403,7 @@ export function filterByCategory(
   entries: readonly GlossaryEntry[],
   category: GlossaryCategory,
 ): readonly GlossaryEntry[] {
-  return entries.filter((entry) => entry.category === category)
+  return helpers.filterByCategory(entries, category)
 }
 
 /**
@@ -376,16 +431,5 @@ export function searchEntries(
   entries: readonly GlossaryEntry[],
   query: string,
 ): readonly GlossaryEntry[] {
-  if (!query) {
-    return entries
-  }
-
-  const lowerQuery = query.toLowerCase()
-
-  return entries.filter(
-    (entry) =>
-      entry.fromCommand.toLowerCase().includes(lowerQuery) ||
-      entry.toCommand.toLowerCase().includes(lowerQuery) ||
-      entry.note.toLowerCase().includes(lowerQuery),
-  )
+  return helpers.searchEntries(entries, query)
 }
@@ -0,0 +1,253 @@
+/**
+ * Direction-aware glossary lookup.
+ *
+ * Every glossary puts its pairing's source tool in `fromCommand` and
+ * declares which tool each column holds. This module keys entries by
+ * tool id, validates each glossary's declared columns against its
+ * pairing and its data, and answers "what is X in the other tool" in
+ * either direction.
+ *
+ * @example
+ * ```ts
+ * import { lookup } from "@/content/glossary/lookup"
+ *
+ * lookup("jj-git", "git", "commit --amend")
+ * // [{ command: "git commit --amend", counterpart: { tool: "jj", command: "jj describe (on @)" }, ... }]
+ *
+ * lookup("effect-zio", "zio", "ZIO.succeed")
+ * // [{ command: "ZIO.succeed(x)", counterpart: { tool: "effect", command: "Effect.succeed(x)" }, ... }]
+ * ```
+ *
+ * @module
+ */
+
+import { getEntry, isPairing } from "../pairings"
+import type { ToolId } from "../tools"
+import { type GlossaryReference, getReference, getReferences } from "./index"
+import type { GlossaryEntry } from "./types"
+
+/**
+ * Glossary entry keyed by tool id instead of from/to.
+ */
+export interface ToolKeyedEntry {
+  /** Unique identifier (same as the source entry) */
+  readonly id: string
+  /** Category grouping for this entry */
+  readonly category: string
+  /** Command or API per tool */
+  readonly commands: { readonly [id in ToolId]?: string }
+  /** Note about differences or usage */
+  readonly note: string
+  /** The glossary entry this one was keyed from */
+  readonly source: GlossaryEntry
+}
+
+/**
+ * Result of a lookup: the matched command and its counterpart.
+ */
+export interface LookupResult {
+  /** The source glossary entry */
+  readonly entry: GlossaryEntry
+  /** Tool the query was matched against */
+  readonly tool: ToolId
+  /** Matched command in that tool */
+  readonly command: string
+  /** Equivalent command in the other tool */
+  readonly counterpart: {
+    readonly tool: ToolId
+    readonly command: string
+  }
+  /** Note about differences or usage */
+  readonly note: string
+}
+
+/**
+ * Kinds of orientation problems.
+ *
+ * - `tool-mismatch`: the glossary's columns are not the pairing's tools
+ * - `reversed`: `fromCommand` holds the pairing's target tool
+ * - `column-content`: a column's data looks like the other tool's syntax
+ */
+export type OrientationIssueKind = "tool-mismatch" | "reversed" | "column-content"
+
+/**
+ * A single orientation problem.
+ */
+export interface OrientationIssue {
+  /** Kind of problem */
+  readonly kind: OrientationIssueKind
+  /** Glossary slug */
+  readonly slug: string
+  /** Human-readable description */
+  readonly message: string
+}
+
+/**
+ * Syntax signatures used to recognize which tool a command belongs to.
+ */
+export const toolSignatures: { readonly [id in ToolId]?: RegExp } = {
+  git: /^git\b/,
+  jj: /^jj\b/,
+  zio: /\bZIO\b|\bZ(?:Layer|Stream|Pipeline|Sink|State|Environment)\b|\bURIO\b|\bRIO\b|\bUIO\b/,
+  "cats-effect": /\bIO\b|\bResource\b|\bKleisli\b|\bDeferred\b|\bfs2\b|\bIOApp\b/,
+  effect: /\b(?:Effect|Layer|Context|Schema)\b|yield\*/,
+  tmux: /^tmux\b|\bCtrl\+b\b/,
+}
+
+/**
+ * Get the command an entry lists for a tool.
+ *
+ * @param reference - The glossary the entry belongs to.
+ * @param entry - The entry.
+ * @param tool - The tool to read.
+ * @returns The command, or `null` if the glossary does not cover the tool.
+ */
+export function commandForTool(reference: GlossaryReference, entry: GlossaryEntry, tool: ToolId): string | null {
+  if (reference.columns.fromCommand === tool) return entry.fromCommand
+  if (reference.columns.toCommand === tool) return entry.toCommand
+  return null
+}
+
+/**
+ * Key a glossary's entries by tool id.
+ *
+ * @param reference - The glossary to convert.
+ * @returns Entries with a `commands` record per tool.
+ */
+export function keyByTool(reference: GlossaryReference): readonly ToolKeyedEntry[] {
+  return reference.entries.map((entry) => ({
+    id: entry.id,
+    category: entry.category,
+    commands: {
+      [reference.columns.fromCommand]: entry.fromCommand,
+      [reference.columns.toCommand]: entry.toCommand,
+    },
+    note: entry.note,
+    source: entry,
+  }))
+}
+
+const keyedCache = new Map<string, readonly ToolKeyedEntry[]>()
+
+/**
+ * Get a glossary's entries keyed by tool id (cached per slug).
+ *
+ * @param slug - The glossary slug (e.g., "jj-git", "effect-cats").
+ * @returns The tool-keyed entries, or `null` if there is no comparison glossary for the slug.
+ */
+export function getToolKeyedEntries(slug: string): readonly ToolKeyedEntry[] | null {
+  const cached = keyedCache.get(slug)
+  if (cached) {
+    return cached
+  }
+  const reference = getReference(slug)
+  if (reference?.kind !== "glossary") {
+    return null
+  }
+  const keyed = keyByTool(reference)
+  keyedCache.set(slug, keyed)
+  return keyed
+}
+
+function signatureScore(entries: readonly GlossaryEntry[], column: "fromCommand" | "toCommand", tool: ToolId): number {
+  const signature = toolSignatures[tool]
+  return signature ? entries.filter((entry) => signature.test(entry[column])).length : 0
+}
+
+/**
+ * Check a glossary's declared columns against its pairing and its data.
+ *
+ * @param reference - The glossary to check.
+ * @returns Problems found (empty when the orientation is consistent).
+ */
+export function validateOrientation(reference: GlossaryReference): readonly OrientationIssue[] {
+  const issues: OrientationIssue[] = []
+  const { slug, columns, entries } = reference
+
+  const entry = getEntry(slug)
+  if (entry && isPairing(entry)) {
+    const pairingTools = [entry.from, entry.to]
+    if (!pairingTools.includes(columns.fromCommand) || !pairingTools.includes(columns.toCommand)) {
+      issues.push({
+        kind: "tool-mismatch",
+        slug,
+        message: `columns (${columns.fromCommand}, ${columns.toCommand}) do not match pairing (${entry.from} → ${entry.to})`,
+      })
+    } else if (columns.fromCommand === entry.to) {
+      issues.push({
+        kind: "reversed",
+        slug,
+        message: `fromCommand holds the target tool (${entry.to}); pairing reads ${entry.from} → ${entry.to}`,
+      })
+    }
+  }
+
+  for (const column of ["fromCommand", "toCommand"] as const) {
+    const declared = columns[column]
+    const other = column === "fromCommand" ? columns.toCommand : columns.fromCommand
+    const declaredScore = signatureScore(entries, column, declared)
+    const otherScore = signatureScore(entries, column, other)
+    if (otherScore > declaredScore) {
+      issues.push({
+        kind: "column-content",
+        slug,
+        message: `${column} is declared as ${declared} but ${otherScore} of ${entries.length} entries look like ${other} (${declaredScore} look like ${declared})`,
+      })
+    }
+  }
+
+  return issues
+}
+
+/**
+ * Check the orientation of every comparison glossary.
+ *
+ * @returns Problems found across all glossaries.
+ */
+export function validateAllOrientations(): readonly OrientationIssue[] {
+  return getReferences().flatMap((reference) =>
+    reference.kind === "glossary" ? validateOrientation(reference) : [],
+  )
+}
+
+/**
+ * Look up what a command is in the other tool of a glossary.
+ *
+ * Matches `query` case-insensitively against the commands of `tool`
+ * only; an empty query returns every entry.
+ *
+ * @param slug - The glossary slug (e.g., "jj-git", "effect-cats").
+ * @param tool - The tool the query is written in.
+ * @param query - The command or fragment to look up.
+ * @returns Matches with their counterparts, or `null` if the glossary does not exist or cover the tool.
+ */
+export function lookup(slug: string, tool: ToolId, query: string): readonly LookupResult[] | null {
+  const reference = getReference(slug)
+  const entries = getToolKeyedEntries(slug)
+  if (reference?.kind !== "glossary" || !entries) {
+    return null
+  }
+
+  const { columns } = reference
+  const other = columns.fromCommand === tool ? columns.toCommand : columns.toCommand === tool ? columns.fromCommand : null
+  if (!other) {
+    return null
+  }
+
+  const lowerQuery = query.toLowerCase()
+  return entries.flatMap((keyed) => {
+    const command = keyed.commands[tool] ?? ""
+    if (lowerQuery && !command.toLowerCase().includes(lowerQuery)) {
+      return []
+    }
+    return [
+      {
+        entry: keyed.source,
+        tool,
+        command,
+        counterpart: { tool: other, command: keyed.commands[other] ?? "" },
+        note: keyed.note,
+      },
+    ]
+  })
+}
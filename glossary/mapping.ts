@@ -0,0 +1,131 @@
+/**
+ * Accessors for glossary mappings that are not one command to one command.
+ *
+ * An entry side is either a single command (`fromCommand` /
+ * `toCommand`), a set of `alternatives`, a `sequence` of steps, or
+ * `none` when the tool has no equivalent. These accessors normalize all
+ * of them, so renderers handle one shape.
+ *
+ * @example
+ * ```ts
+ * import { getMapping, getSideView } from "@/content/glossary/mapping"
+ *
+ * getMapping(entry, "toCommand")
+ * // { kind: "sequence", steps: ["jj git fetch", "jj rebase -d <bookmark>@origin"] }
+ *
+ * getSideView(entry, "fromCommand")
+ * // { kind: "none", commands: [], explanation: "git has no ...", summary: "(start new work)" }
+ * ```
+ *
+ * @module
+ */
+
+import type { CommandMapping, GlossaryEntry } from "./types"
+
+/**
+ * Which side of an entry to read.
+ */
+export type MappingSide = "fromCommand" | "toCommand"
+
+/**
+ * Rendering-friendly view of one entry side.
+ */
+export interface SideView {
+  /** `single` for a plain command, otherwise the mapping kind */
+  readonly kind: "single" | CommandMapping["kind"]
+  /** Commands to show: one, the alternatives, the steps in order, or none */
+  readonly commands: readonly string[]
+  /** Why there is no equivalent (only for `none`) */
+  readonly explanation?: string
+  /** One-line summary (the entry's `fromCommand` / `toCommand`) */
+  readonly summary: string
+}
+
+/**
+ * Get the mapping of one side of an entry.
+ *
+ * @param entry - The glossary entry.
+ * @param side - Which side to read.
+ * @returns The entry's mapping, or a single alternative holding the command string.
+ */
+export function getMapping(entry: GlossaryEntry, side: MappingSide): CommandMapping {
+  const mapping = side === "fromCommand" ? entry.fromMapping : entry.toMapping
+  return mapping ?? { kind: "alternatives", commands: [entry[side]] }
+}
+
+/**
+ * Get the concrete commands of one side of an entry.
+ *
+ * @param entry - The glossary entry.
+ * @param side - Which side to read.
+ * @returns The alternatives or the steps in order; empty when there is no equivalent.
+ */
+export function getCommands(entry: GlossaryEntry, side: MappingSide): readonly string[] {
+  const mapping = getMapping(entry, side)
+  return mapping.kind === "alternatives" ? mapping.commands : mapping.kind === "sequence" ? mapping.steps : []
+}
+
+/**
+ * Get the searchable texts of a mapping.
+ *
+ * @param mapping - The mapping, if the side has one.
+ * @returns The alternatives, the steps, or the explanation of a missing equivalent.
+ */
+export function mappingTexts(mapping: CommandMapping | undefined): readonly string[] {
+  if (!mapping) return []
+  return mapping.kind === "alternatives"
+    ? mapping.commands
+    : mapping.kind === "sequence"
+      ? mapping.steps
+      : [mapping.explanation]
+}
+
+/**
+ * Check whether a side has an equivalent command.
+ */
+export function hasEquivalent(entry: GlossaryEntry, side: MappingSide): boolean {
+  return getMapping(entry, side).kind !== "none"
+}
+
+/**
+ * Check whether an entry maps exactly one command to exactly one command.
+ */
+export function isOneToOne(entry: GlossaryEntry): boolean {
+  return getCommands(entry, "fromCommand").length === 1 && getCommands(entry, "toCommand").length === 1
+}
+
+/**
+ * Get a rendering-friendly view of one side of an entry.
+ *
+ * @param entry - The glossary entry.
+ * @param side - Which side to read.
+ * @returns Kind, commands, explanation and summary.
+ */
+export function getSideView(entry: GlossaryEntry, side: MappingSide): SideView {
+  const mapping = side === "fromCommand" ? entry.fromMapping : entry.toMapping
+  const summary = entry[side]
+  if (!mapping) {
+    return { kind: "single", commands: [summary], summary }
+  }
+  if (mapping.kind === "none") {
+    return { kind: "none", commands: [], explanation: mapping.explanation, summary }
+  }
+  return { kind: mapping.kind, commands: getCommands(entry, side), summary }
+}
+
+/**
+ * Render a mapping as a one-line summary.
+ *
+ * @param mapping - The mapping.
+ * @returns Alternatives joined with ` / `, steps with `; `, or `(no equivalent)`.
+ */
+export function formatMapping(mapping: CommandMapping): string {
+  switch (mapping.kind) {
+    case "alternatives":
+      return mapping.commands.join(" / ")
+    case "sequence":
+      return mapping.steps.join("; ")
+    case "none":
+      return "(no equivalent)"
+  }
+}
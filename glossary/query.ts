@@ -0,0 +1,416 @@
+/**
+ * Command-shaped queries against glossary command skeletons.
+ *
+ * A query like `git rebase -i HEAD~3` or `ZIO.foreachPar(list)(f)`
+ * never appears literally in a glossary, whose commands are written as
+ * skeletons (`git rebase -i <onto>`, `ZIO.collectAllPar(list)`). This
+ * module normalizes the query (program, subcommand, flags and
+ * classified arguments, or receiver, method and call shape) and scores
+ * it against every command of the jj-git, zio-cats and effect-zio
+ * glossaries, explaining each match. Queries that are neither shell
+ * commands nor API calls fall back to the ranked text search.
+ *
+ * @example
+ * ```ts
+ * import { matchCommandQuery } from "@/content/glossary/query"
+ *
+ * matchCommandQuery("git rebase -i HEAD~3")[0]
+ * // { slug: "jj-git", entry: { id: "history-2", ... }, side: "fromCommand",
+ * //   command: "git rebase -i <parent> (mark as edit)", score: 1,
+ * //   reason: "git rebase, with -i, HEAD~3 fills <parent> (revision)" }
+ *
+ * matchCommandQuery("ZIO.foreachPar(list)(f)")[0]?.reason
+ * // 'same receiver ZIO, similar method collectAllPar (shares "par")'
+ * ```
+ *
+ * @module
+ */
+
+import { normalizeCommand } from "./compose"
+import { apiName } from "./cross-check"
+import { getReferences } from "./index"
+import { type MappingSide, getCommands } from "./mapping"
+import { editDistance, search, tokenize } from "./search"
+import { getCommandSyntax, parseCommandSyntax, placeholderTypes } from "./syntax"
+import { parseCommandLine } from "./translate"
+import type { CommandToken, GlossaryEntry, PlaceholderType } from "./types"
+
+/**
+ * A concrete argument of a shell query.
+ */
+export interface QueryArgument {
+  /** Argument as written (quotes removed) */
+  readonly text: string
+  /** Recognized placeholder type, or `null` when it may be a literal word */
+  readonly type: PlaceholderType | null
+}
+
+/**
+ * A query reduced to its command skeleton.
+ */
+export type NormalizedQuery =
+  | {
+      readonly kind: "shell"
+      readonly input: string
+      /** Skeleton with arguments replaced by their types (e.g., "git rebase -i <revision>") */
+      readonly skeleton: string
+      readonly program: string
+      readonly subcommand: string | null
+      readonly flags: readonly string[]
+      readonly arguments: readonly QueryArgument[]
+    }
+  | {
+      readonly kind: "api"
+      readonly input: string
+      /** Call shape without arguments (e.g., "ZIO.foreachPar()()") */
+      readonly skeleton: string
+      /** Receiver, or `null` for a value (lowercase receiver such as `fa`) or a bare call */
+      readonly receiver: string | null
+      readonly method: string
+    }
+  | {
+      readonly kind: "text"
+      readonly input: string
+      readonly skeleton: string
+    }
+
+/**
+ * A glossary command matched by a query.
+ */
+export interface CommandQueryMatch {
+  /** Glossary slug */
+  readonly slug: string
+  /** Matched entry */
+  readonly entry: GlossaryEntry
+  /** Side of the entry holding the matched command */
+  readonly side: MappingSide
+  /** Matched command skeleton */
+  readonly command: string
+  /** Match quality between 0 and 1 */
+  readonly score: number
+  /** Why the command matched */
+  readonly reason: string
+}
+
+/**
+ * Options for {@link matchCommandQuery}.
+ */
+export interface CommandQueryOptions {
+  /** Glossaries to search (default: every comparison glossary) */
+  readonly slugs?: readonly string[]
+  /** Maximum number of matches (default 5) */
+  readonly limit?: number
+  /** Minimum skeleton score before falling back to text search (default 0.3) */
+  readonly minScore?: number
+}
+
+// Score of an argument against a placeholder, by compatibility.
+const SAME_TYPE = 1
+const COMPATIBLE = 0.75
+const UNTYPED = 0.75
+// Penalties for flags and arguments the query adds or the template needs.
+const MISSING_FLAG = 0.5
+const EXTRA = 0.5
+const LITERAL_MISMATCH = 1
+// Multiplier for matches on the query's program and subcommand alone.
+const SUBCOMMAND_ONLY = 0.5
+
+const apiPattern = /^[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*(?=[([]|$)/
+
+/**
+ * Recognize the placeholder type of a concrete argument.
+ *
+ * `HEAD~3`, `@-`, commit hashes and remote branches (`origin/main`,
+ * `main@origin`) are revisions; URLs are urls; anything with a slash or
+ * a file extension is a path; quoted text is a value.
+ *
+ * @param text - The argument as written.
+ * @returns The type, or `null` for a plain word that may be a literal, a name or a revision.
+ */
+export function classifyArgument(text: string): PlaceholderType | null {
+  if (/^(?:[a-z][\w+.-]*:\/\/|git@)/i.test(text)) return "url"
+  if (/^(?:HEAD|@)(?:[~^-]\d*)*$/.test(text) || /^[0-9a-f]{7,40}$/.test(text)) return "revision"
+  if (/^(?:origin|upstream)\/\S+$/.test(text) || /^[\w./-]+@(?:origin|upstream)$/.test(text)) return "revision"
+  if (text.includes("/") || /^\.{1,2}$/.test(text) || /\.[A-Za-z0-9]{1,5}$/.test(text)) return "path"
+  if (/\s/.test(text)) return "value"
+  return null
+}
+
+function programs(slugs: readonly string[] | undefined): ReadonlySet<string> {
+  const words = glossaries(slugs).flatMap(({ entries }) =>
+    entries.flatMap((entry) =>
+      (["fromCommand", "toCommand"] as const).flatMap((side) =>
+        getCommands(entry, side).map((command) => parseCommandSyntax(command).tokens[0]?.text ?? ""),
+      ),
+    ),
+  )
+  return new Set(words.filter((word) => /^[a-z][\w-]*$/.test(word)))
+}
+
+/**
+ * Reduce a query to its command skeleton.
+ *
+ * @param query - A shell command line, an API call, or free text.
+ * @param slugs - Glossaries whose programs count as shell commands (default: every comparison glossary).
+ * @returns The normalized query.
+ */
+export function normalizeQuery(query: string, slugs?: readonly string[]): NormalizedQuery {
+  const input = query.trim()
+  const line = parseCommandLine(input)
+
+  if (programs(slugs).has(line.program)) {
+    const [subcommand = null, ...rest] = line.positionals
+    const args = rest.map((text) => ({ text, type: classifyArgument(text) }))
+    const skeleton = [
+      line.program,
+      ...(subcommand === null ? [] : [subcommand]),
+      ...line.flags,
+      ...args.map((arg) => (arg.type === null ? arg.text : `<${arg.type}>`)),
+    ].join(" ")
+    return { kind: "shell", input, skeleton, program: line.program, subcommand, flags: line.flags, arguments: args }
+  }
+
+  const api = apiPattern.exec(input)?.[0]
+  if (api?.includes(".")) {
+    const dot = api.lastIndexOf(".")
+    const receiver = api.slice(0, dot)
+    return {
+      kind: "api",
+      input,
+      skeleton: normalizeCommand(input),
+      receiver: /^[A-Z]/.test(receiver) ? receiver : null,
+      method: api.slice(dot + 1),
+    }
+  }
+
+  return { kind: "text", input, skeleton: input }
+}
+
+function glossaries(slugs: readonly string[] | undefined) {
+  return getReferences().flatMap((reference) =>
+    reference.kind === "glossary" && (!slugs || slugs.includes(reference.slug)) ? [reference] : [],
+  )
+}
+
+function compatibility(argument: QueryArgument, placeholder: PlaceholderType): number {
+  if (argument.type === null) {
+    return placeholder === "url" ? 0 : UNTYPED
+  }
+  if (argument.type === placeholder) {
+    return SAME_TYPE
+  }
+  const related = (a: PlaceholderType, b: PlaceholderType) =>
+    (argument.type === a && placeholder === b) || (argument.type === b && placeholder === a)
+  return related("revision", "ref") || related("revision", "operation") || placeholder === "value" ? COMPATIBLE : 0
+}
+
+interface Scored {
+  readonly score: number
+  readonly reason: string
+}
+
+function scoreShell(query: Extract<NormalizedQuery, { kind: "shell" }>, command: string): Scored | null {
+  const syntax = parseCommandSyntax(command)
+  // Each `&&` / `;` segment of a template is matched on its own.
+  const segments: CommandToken[][] = [[]]
+  for (const token of syntax.tokens) {
+    if (token.kind === "operator") segments.push([])
+    else segments[segments.length - 1]?.push(token)
+  }
+
+  let best: Scored | null = null
+  for (const [program, subcommand, ...rest] of segments) {
+    if (program?.text !== query.program || subcommand?.text !== (query.subcommand ?? subcommand?.text)) {
+      continue
+    }
+
+    const reasons = [`${program.text} ${subcommand?.text ?? ""}`.trim()]
+    const flags = rest.filter((token) => token.kind === "flag").map((token) => token.text)
+    const positionals = rest.filter((token) => token.kind !== "flag")
+    // `-D` and `-d` are variants of one option; an extra flag costs as much as a missing one.
+    const given = (flag: string) => query.flags.some((other) => other.toLowerCase() === flag.toLowerCase())
+    const shared = flags.filter(given)
+    const missing = flags.filter((flag) => !given(flag))
+    const extra = query.flags.filter((flag) => !flags.some((other) => other.toLowerCase() === flag.toLowerCase()))
+    let points = 2 + shared.length - missing.length * MISSING_FLAG - extra.length * EXTRA
+    const max = 2 + flags.length + extra.length + positionals.length
+    if (shared.length > 0) reasons.push(`with ${shared.join(" ")}`)
+    if (missing.length > 0) reasons.push(`needs ${missing.join(" ")}`)
+
+    const ignored = [...extra]
+    positionals.forEach((token, index) => {
+      const argument = query.arguments[index]
+      const name = /^<([\w-]+)>$/.exec(token.text)?.[1]
+      if (name === undefined && token.kind !== "string") {
+        if (argument?.text === token.text) points += 1
+        else points -= argument === undefined ? MISSING_FLAG : LITERAL_MISMATCH
+        return
+      }
+      if (argument === undefined) {
+        reasons.push(`${token.text} not given`)
+        return
+      }
+      const type = name === undefined ? "value" : (placeholderTypes[name] ?? "value")
+      points += compatibility(argument, type)
+      reasons.push(`${argument.text} fills ${token.text}${argument.type ? ` (${argument.type})` : ""}`)
+    })
+    for (const argument of query.arguments.slice(positionals.length)) {
+      ignored.push(argument.text)
+      points -= EXTRA
+    }
+    if (ignored.length > 0) reasons.push(`ignores ${ignored.join(" ")}`)
+
+    const score = Math.round(Math.min(1, Math.max(0, points / max)) * 100) / 100
+    if (!best || score > best.score) {
+      best = { score, reason: reasons.join(", ") }
+    }
+  }
+  return best
+}
+
+function methodParts(method: string): ReadonlySet<string> {
+  return new Set(tokenize(method).map((token) => token.term))
+}
+
+function scoreApi(query: Extract<NormalizedQuery, { kind: "api" }>, command: string): Scored | null {
+  const api = apiPattern.exec(command.trim())?.[0]
+  if (!api) {
+    return null
+  }
+  const dot = api.lastIndexOf(".")
+  const method = api.slice(dot + 1)
+  const receiver = dot === -1 ? "" : api.slice(0, dot)
+  const isValue = /^[a-z]/.test(receiver)
+  const sameShape = normalizeCommand(command) === query.skeleton
+  const shape = (score: number) => (sameShape ? score : Math.max(0, score - 0.1))
+  const shapeNote = sameShape ? "" : ", different argument lists"
+
+  if (method === query.method && (receiver === query.receiver || (isValue && query.receiver === null))) {
+    return { score: shape(1), reason: `same API ${apiName(command)}${shapeNote}` }
+  }
+  if (method === query.method) {
+    return { score: shape(0.6), reason: `same method on ${receiver || "a value"}${shapeNote}` }
+  }
+  if (receiver !== query.receiver && !(isValue && query.receiver === null)) {
+    return null
+  }
+
+  // Short names are all a few edits apart (`all` → `fail`), so allow one edit per four characters.
+  const allowed = Math.min(2, Math.floor(Math.min(method.length, query.method.length) / 4))
+  const distance = editDistance(method.toLowerCase(), query.method.toLowerCase(), 2)
+  if (distance <= allowed) {
+    return { score: (8 - distance) / 10, reason: `method ${method} within ${distance} edits` }
+  }
+  const parts = methodParts(method)
+  const queryParts = methodParts(query.method)
+  const shared = [...queryParts].filter((part) => parts.has(part) && part !== method.toLowerCase())
+  if (shared.length === 0) {
+    return null
+  }
+  const similarity = shared.length / new Set([...parts, ...queryParts]).size
+  const words = shared.map((part) => `"${part}"`).join(", ")
+  return {
+    score: Math.round((0.3 + 0.4 * similarity) * 100) / 100,
+    reason: `same receiver ${receiver || "value"}, similar method ${method} (shares ${words})`,
+  }
+}
+
+function matchSkeleton(normalized: NormalizedQuery, options: CommandQueryOptions): readonly CommandQueryMatch[] {
+  if (normalized.kind === "text") {
+    return []
+  }
+
+  const matches: CommandQueryMatch[] = []
+  for (const reference of glossaries(options.slugs)) {
+    for (const entry of reference.entries) {
+      for (const side of ["fromCommand", "toCommand"] as const) {
+        let best: (Scored & { readonly command: string }) | null = null
+        for (const command of getCommands(entry, side)) {
+          const aliases =
+            command === entry[side] ? getCommandSyntax(entry, side).aliases : parseCommandSyntax(command).aliases
+          for (const candidate of [command, ...(normalized.kind === "shell" ? aliases : [])]) {
+            const scored =
+              normalized.kind === "shell" ? scoreShell(normalized, candidate) : scoreApi(normalized, candidate)
+            if (scored && (!best || scored.score > best.score)) {
+              const reason = candidate === command ? scored.reason : `${scored.reason} (alias)`
+              best = { score: scored.score, reason, command }
+            }
+          }
+        }
+        if (best) {
+          matches.push({ slug: reference.slug, entry, side, ...best })
+        }
+      }
+    }
+  }
+
+  return matches
+    .filter((match) => match.score >= (options.minScore ?? 0.3))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit ?? 5)
+}
+
+/**
+ * Match a command-shaped query against glossary command skeletons.
+ *
+ * Shell queries must share the program and subcommand with a command
+ * or one of its aliases (`jj st` for `jj status (jj st)`); flags,
+ * literal words and argument types then decide the score. API queries
+ * match by method name, receiver and call shape.
+ *
+ * Shell queries whose best skeleton scores below `minScore` fall back
+ * to their program and subcommand alone (`git log --since=2.weeks` →
+ * `git log`), at half the score. Text queries, and queries still without a match, fall back
+ * to the ranked text search over the same glossaries (every query word
+ * must match, then any); text matches score at most 0.5, relative to
+ * the best one.
+ *
+ * @param query - A command line, an API call, or free text.
+ * @param options - Glossaries, limit and minimum score.
+ * @returns Matches, best first (ties keep glossary order).
+ */
+export function matchCommandQuery(query: string, options: CommandQueryOptions = {}): readonly CommandQueryMatch[] {
+  const normalized = normalizeQuery(query, options.slugs)
+  const limit = options.limit ?? 5
+
+  const ranked = matchSkeleton(normalized, options)
+  if (ranked.length > 0) {
+    return ranked
+  }
+  if (normalized.kind === "shell" && (normalized.flags.length > 0 || normalized.arguments.length > 0)) {
+    const { program, subcommand } = normalized
+    const skeleton = subcommand === null ? program : `${program} ${subcommand}`
+    const reduced = matchSkeleton({ ...normalized, skeleton, flags: [], arguments: [] }, options)
+    if (reduced.length > 0) {
+      const ignored = [...normalized.flags, ...normalized.arguments.map((argument) => argument.text)].join(" ")
+      return reduced.map((match) => ({
+        ...match,
+        score: Math.round(match.score * SUBCOMMAND_ONLY * 100) / 100,
+        reason: `${match.reason}, ignores ${ignored}`,
+      }))
+    }
+  }
+
+  const slugs = glossaries(options.slugs).map((reference) => reference.slug)
+  const every = search(query, { slugs, kinds: ["glossary"], limit, partial: false })
+  const hits = every.length > 0 ? every : search(query, { slugs, kinds: ["glossary"], limit })
+  const top = hits[0]?.score ?? 1
+  return hits.flatMap((hit): readonly CommandQueryMatch[] => {
+    const highlight = hit.highlights.find((item) => item.field === "fromCommand" || item.field === "toCommand")
+    const field = highlight?.field === "toCommand" ? "toCommand" : "fromCommand"
+    if (!hit.entry || !("fromCommand" in hit.entry)) {
+      return []
+    }
+    const words = hit.highlights.flatMap((item) => item.ranges.map(([start, end]) => item.text.slice(start, end)))
+    return [
+      {
+        slug: hit.slug,
+        entry: hit.entry,
+        side: field,
+        command: hit.entry[field],
+        score: Math.round((hit.score / top) * 50) / 100,
+        reason: `text match on ${[...new Set(words)].map((word) => `"${word}"`).join(", ")}`,
+      },
+    ]
+  })
+}
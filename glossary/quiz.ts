@@ -0,0 +1,278 @@
+/**
+ * Multiple-choice quizzes generated from glossaries and cheat sheets.
+ *
+ * Each question shows one side of an entry and asks for the other:
+ * `fromCommand` → `toCommand` for glossaries, `command` → `description`
+ * for cheat sheets (or the reverse). Distractors are drawn from the same
+ * category first. Generation is deterministic for a given seed, so a
+ * quiz can be shared or replayed by its seed alone.
+ *
+ * Categories are ranked easy, medium or hard by their position in
+ * `getCategories()`: tutorials introduce basics first.
+ *
+ * @example
+ * ```ts
+ * import { generateQuiz, gradeQuiz } from "@/content/glossary/quiz"
+ *
+ * const quiz = generateQuiz("jj-git", { seed: "2026-10-19", count: 5 })
+ * if (quiz) {
+ *   const result = gradeQuiz(quiz, [0, 2, 1, null, 3])
+ *   result.byCategory.BASICS
+ *   // { correct: 1, total: 2, score: 0.5 }
+ * }
+ * ```
+ *
+ * @module
+ */
+
+import { type Reference, getReference } from "./index"
+import type { CheatSheetEntry, GlossaryEntry } from "./types"
+
+/**
+ * Difficulty of a category.
+ */
+export type Difficulty = "easy" | "medium" | "hard"
+
+/**
+ * Which side of an entry is asked.
+ *
+ * - `forward`: show `fromCommand` (or a cheat sheet `command`), pick `toCommand` (or the `description`)
+ * - `reverse`: the other way around
+ */
+export type QuizDirection = "forward" | "reverse"
+
+/**
+ * A single multiple-choice question.
+ */
+export interface QuizQuestion {
+  /** Entry the question was built from */
+  readonly entryId: string
+  /** Category of the entry */
+  readonly category: string
+  /** Difficulty of the category */
+  readonly difficulty: Difficulty
+  /** What is shown */
+  readonly prompt: string
+  /** Possible answers, in shuffled order */
+  readonly choices: readonly string[]
+  /** Index of the correct answer in `choices` */
+  readonly answerIndex: number
+}
+
+/**
+ * A generated quiz.
+ */
+export interface Quiz {
+  /** Reference slug */
+  readonly slug: string
+  /** Seed the quiz was generated from */
+  readonly seed: string
+  /** Direction every question is asked in */
+  readonly direction: QuizDirection
+  /** Questions, in presentation order */
+  readonly questions: readonly QuizQuestion[]
+}
+
+/**
+ * Options for {@link generateQuiz}.
+ */
+export interface QuizOptions {
+  /** Seed for deterministic generation (default: a random seed, returned on the quiz) */
+  readonly seed?: string | number
+  /** Number of questions (default 10, capped at the number of eligible entries) */
+  readonly count?: number
+  /** Number of choices per question, including the answer (default 4) */
+  readonly choices?: number
+  /** Direction of every question (default "forward") */
+  readonly direction?: QuizDirection
+  /** Only ask about categories of this difficulty */
+  readonly difficulty?: Difficulty
+  /** Only ask about these categories */
+  readonly categories?: readonly string[]
+}
+
+/**
+ * Score for a set of questions.
+ */
+export interface Score {
+  /** Correct answers */
+  readonly correct: number
+  /** Questions asked */
+  readonly total: number
+  /** `correct / total` (0 when nothing was asked) */
+  readonly score: number
+}
+
+/**
+ * Graded quiz.
+ */
+export interface QuizResult extends Score {
+  /** Whether each question was answered correctly, in question order */
+  readonly answers: readonly boolean[]
+  /** Scores per category, in the order categories first appear in the quiz */
+  readonly byCategory: Readonly<Record<string, Score>>
+  /** Scores per difficulty */
+  readonly byDifficulty: { readonly [difficulty in Difficulty]?: Score }
+}
+
+/**
+ * Create a deterministic random number generator (mulberry32).
+ *
+ * @param seed - Any string or number.
+ * @returns A function returning numbers in [0, 1).
+ */
+export function createRandom(seed: string | number): () => number {
+  // FNV-1a hash of the seed's text form.
+  let state = 2166136261
+  for (const char of String(seed)) {
+    state = Math.imul(state ^ (char.codePointAt(0) ?? 0), 16777619)
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function shuffle<T>(items: readonly T[], random: () => number): T[] {
+  const result = [...items]
+  for (let index = result.length - 1; index > 0; index--) {
+    const other = Math.floor(random() * (index + 1))
+    const item = result[index] as T
+    result[index] = result[other] as T
+    result[other] = item
+  }
+  return result
+}
+
+/**
+ * Rank a category by its position in the reference's display order.
+ *
+ * The first third of categories is easy, the last third hard.
+ *
+ * @param reference - The glossary or cheat sheet.
+ * @param category - A category of the reference.
+ * @returns The category's difficulty (`medium` for unknown categories).
+ */
+export function getCategoryDifficulty(reference: Reference, category: string): Difficulty {
+  const categories: readonly string[] = reference.helpers.getCategories()
+  const index = categories.indexOf(category)
+  if (index === -1) {
+    return "medium"
+  }
+  const position = (index + 0.5) / categories.length
+  return position < 1 / 3 ? "easy" : position < 2 / 3 ? "medium" : "hard"
+}
+
+function sides(entry: GlossaryEntry | CheatSheetEntry, direction: QuizDirection): readonly [string, string] {
+  const [front, back] = "command" in entry ? [entry.command, entry.description] : [entry.fromCommand, entry.toCommand]
+  return direction === "forward" ? [front, back] : [back, front]
+}
+
+function sameText(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase()
+}
+
+function entriesOfCategory(reference: Reference, category: string): readonly (GlossaryEntry | CheatSheetEntry)[] {
+  // Each branch calls the helpers with their own entry type.
+  return reference.kind === "glossary"
+    ? reference.helpers.filterByCategory(reference.entries, category)
+    : reference.helpers.filterByCategory(reference.entries, category)
+}
+
+/**
+ * Generate a multiple-choice quiz.
+ *
+ * Distractors come from the entry's category (via `filterByCategory`)
+ * and are topped up from other categories when the category is too
+ * small. Answers identical to the correct one, and answers of entries
+ * sharing the question's prompt, are never offered.
+ *
+ * @param slug - Glossary or cheat sheet slug (e.g., "jj-git", "tmux").
+ * @param options - Seed, size, direction and category filters.
+ * @returns The quiz, or `null` if the slug has no reference data.
+ */
+export function generateQuiz(slug: string, options: QuizOptions = {}): Quiz | null {
+  const reference = getReference(slug)
+  if (!reference) {
+    return null
+  }
+
+  const seed = String(options.seed ?? Math.floor(Math.random() * 2 ** 32))
+  const direction = options.direction ?? "forward"
+  const choiceCount = options.choices ?? 4
+  const random = createRandom(seed)
+
+  const categories = reference.helpers
+    .getCategories()
+    .filter((category) => !options.categories || options.categories.includes(category))
+    .filter((category) => !options.difficulty || getCategoryDifficulty(reference, category) === options.difficulty)
+  const eligible = categories.flatMap((category) => entriesOfCategory(reference, category))
+  const picked = shuffle(eligible, random).slice(0, options.count ?? 10)
+
+  const questions = picked.map((entry) => {
+    const [prompt, answer] = sides(entry, direction)
+    const sameCategory = entriesOfCategory(reference, entry.category)
+    const others = reference.entries.filter((other) => other.category !== entry.category)
+
+    const distractors: string[] = []
+    for (const candidate of [...shuffle(sameCategory, random), ...shuffle(others, random)]) {
+      if (distractors.length === choiceCount - 1) break
+      const [candidatePrompt, text] = sides(candidate, direction)
+      // An entry with the same prompt (e.g., tmux `Ctrl+b [` as scroll and copy mode) answers it too.
+      if (sameText(candidatePrompt, prompt)) continue
+      if (text && text !== answer && !distractors.includes(text)) {
+        distractors.push(text)
+      }
+    }
+
+    const choices = shuffle([answer, ...distractors], random)
+    return {
+      entryId: entry.id,
+      category: entry.category,
+      difficulty: getCategoryDifficulty(reference, entry.category),
+      prompt,
+      choices,
+      answerIndex: choices.indexOf(answer),
+    }
+  })
+
+  return { slug, seed, direction, questions }
+}
+
+function toScore(correct: number, total: number): Score {
+  return { correct, total, score: total === 0 ? 0 : correct / total }
+}
+
+/**
+ * Grade a quiz.
+ *
+ * @param quiz - The quiz that was taken.
+ * @param answers - Chosen choice index per question (`null` or missing when skipped).
+ * @returns Overall, per-category and per-difficulty scores.
+ */
+export function gradeQuiz(quiz: Quiz, answers: readonly (number | null)[]): QuizResult {
+  const correctness = quiz.questions.map((question, index) => answers[index] === question.answerIndex)
+
+  const tally = <K extends string>(key: (question: QuizQuestion) => K): Record<K, Score> => {
+    const counts = new Map<K, { correct: number; total: number }>()
+    quiz.questions.forEach((question, index) => {
+      const count = counts.get(key(question)) ?? { correct: 0, total: 0 }
+      count.total++
+      if (correctness[index]) count.correct++
+      counts.set(key(question), count)
+    })
+    const scores = [...counts].map(([name, count]) => [name, toScore(count.correct, count.total)] as const)
+    return Object.fromEntries(scores) as Record<K, Score>
+  }
+
+  return {
+    ...toScore(correctness.filter(Boolean).length, quiz.questions.length),
+    answers: correctness,
+    byCategory: tally((question) => question.category),
+    byDifficulty: tally((question) => question.difficulty),
+  }
+}
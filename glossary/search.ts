@@ -0,0 +1,530 @@
+/**
+ * Ranked fuzzy search across every glossary, cheat sheet and registry entry.
+ *
+ * Unlike `searchEntries` (an unranked substring filter over one
+ * module), the index covers every reference plus registry slugs, tags
+ * and tool descriptions. Command syntax is tokenized on whitespace,
+ * `::`, `.` and brackets, flags are indexed with and without dashes,
+ * and compound words also by their parts (`foreachPar` → `foreach`,
+ * `par`). Query terms match exactly, by prefix (for search as you
+ * type) or within one or two typos (`rebsae` → `rebase`).
+ *
+ * Hits matching more query terms rank first, then by score: command
+ * fields weigh more than descriptions and tags, which weigh more than
+ * notes, rarer terms weigh more than frequent ones, and a query found
+ * verbatim in a command earns a bonus. A term found in most documents
+ * of an entry, like its program name (`git`, `ZIO`), only finds those
+ * documents on its own when the query has nothing more specific:
+ * `git stash` does not list every git command.
+ *
+ * @example
+ * ```ts
+ * import { search } from "@/content/glossary/search"
+ *
+ * search("rebsae", { limit: 3 })
+ * // [{ slug: "jj-git", kind: "glossary", id: "history-1", score: 4.2, matchedTerms: 1, highlights: [...] }, ...]
+ *
+ * search("collectAllPar", { slugs: ["effect-zio"] })[0]?.highlights
+ * // [{ field: "fromCommand", text: "ZIO.collectAllPar(effects)", ranges: [[4, 17]] }]
+ * ```
+ *
+ * @module
+ */
+
+import { getEntryTools, getPublishedEntries } from "../pairings"
+import { getReferences } from "./index"
+import { mappingTexts } from "./mapping"
+import { getEntryAliases } from "./syntax"
+import type { CheatSheetEntry, GlossaryEntry } from "./types"
+
+/**
+ * What a search document describes.
+ */
+export type SearchKind = "glossary" | "cheat-sheet" | "entry"
+
+/**
+ * Searchable field of a document.
+ */
+export type SearchFieldName =
+  | "fromCommand"
+  | "toCommand"
+  | "command"
+  | "alias"
+  | "mapping"
+  | "description"
+  | "note"
+  | "slug"
+  | "tag"
+  | "tool"
+
+/**
+ * A field value of a search document.
+ */
+export interface SearchField {
+  /** Field name */
+  readonly name: SearchFieldName
+  /** Field text */
+  readonly text: string
+}
+
+/**
+ * A unit of search: one reference entry or one registry entry.
+ */
+export interface SearchDocument {
+  /** Slug of the pairing or tutorial the document belongs to */
+  readonly slug: string
+  /** Document kind */
+  readonly kind: SearchKind
+  /** Entry id, or the slug for registry entries */
+  readonly id: string
+  /** The reference entry (`null` for registry entries) */
+  readonly entry: GlossaryEntry | CheatSheetEntry | null
+  /** Searchable fields */
+  readonly fields: readonly SearchField[]
+}
+
+/**
+ * Matched character ranges of one field.
+ */
+export interface SearchHighlight {
+  /** Field name */
+  readonly field: SearchFieldName
+  /** Field text */
+  readonly text: string
+  /** Sorted, non-overlapping `[start, end)` ranges of matched text */
+  readonly ranges: readonly (readonly [number, number])[]
+}
+
+/**
+ * A ranked search result.
+ */
+export interface SearchHit {
+  /** Slug of the pairing or tutorial the hit comes from */
+  readonly slug: string
+  /** Document kind */
+  readonly kind: SearchKind
+  /** Entry id, or the slug for registry entries */
+  readonly id: string
+  /** The reference entry (`null` for registry entries) */
+  readonly entry: GlossaryEntry | CheatSheetEntry | null
+  /** Relevance; higher is better */
+  readonly score: number
+  /** Number of query terms the document matched */
+  readonly matchedTerms: number
+  /** Matched ranges per field, in field order */
+  readonly highlights: readonly SearchHighlight[]
+}
+
+/**
+ * Options for {@link SearchIndex.search}.
+ */
+export interface SearchOptions {
+  /** Maximum number of hits (default 20) */
+  readonly limit?: number
+  /** Only search these slugs */
+  readonly slugs?: readonly string[]
+  /** Only search these document kinds */
+  readonly kinds?: readonly SearchKind[]
+  /** Also return documents matching only some query terms (default true) */
+  readonly partial?: boolean
+}
+
+/**
+ * A prebuilt search index.
+ */
+export interface SearchIndex {
+  /** Indexed documents */
+  readonly documents: readonly SearchDocument[]
+  /** Search the index; an empty query returns no hits */
+  readonly search: (query: string, options?: SearchOptions) => readonly SearchHit[]
+}
+
+/**
+ * A term of tokenized text with its position.
+ */
+export interface SearchToken {
+  /** Lowercased term */
+  readonly term: string
+  /** Start offset in the source text */
+  readonly start: number
+  /** End offset (exclusive) */
+  readonly end: number
+  /** `false` for derived terms (a flag without dashes, a part of a compound word) */
+  readonly primary: boolean
+}
+
+/**
+ * Weight of a match in each field.
+ */
+export const fieldWeights: Readonly<Record<SearchFieldName, number>> = {
+  fromCommand: 10,
+  toCommand: 10,
+  command: 10,
+  alias: 8,
+  mapping: 7,
+  slug: 6,
+  tag: 5,
+  description: 5,
+  tool: 4,
+  note: 2,
+}
+
+// Match quality of a term, by how it matched.
+const EXACT = 1
+const PREFIX = 0.75
+const FUZZY = 0.6
+// Multiplier when the whole query appears in a command field.
+const PHRASE_BONUS = 1.5
+
+const commandFields = new Set<SearchFieldName>(["fromCommand", "toCommand", "command", "alias", "mapping"])
+
+/**
+ * Split text into search terms.
+ *
+ * Words are runs of letters, digits, `_` and `-`, with an optional
+ * leading `-` or `--`; everything else (whitespace, `::`, `.`,
+ * brackets, quotes) separates them. Flags also yield the term without
+ * dashes, and hyphenated or camelCase words also yield their parts.
+ *
+ * @param text - Any text (a command, a note, a query).
+ * @returns Tokens in order; derived tokens follow the word they come from.
+ */
+export function tokenize(text: string): readonly SearchToken[] {
+  const tokens: SearchToken[] = []
+  for (const match of text.matchAll(/-{0,2}[\p{L}\p{N}_][\p{L}\p{N}_-]*/gu)) {
+    const word = match[0].replace(/-+$/, "")
+    const start = match.index
+    tokens.push({ term: word.toLowerCase(), start, end: start + word.length, primary: true })
+
+    const bare = word.replace(/^-+/, "")
+    const offset = start + word.length - bare.length
+    const parts = [...bare.matchAll(/[\p{Lu}]?[\p{Ll}\p{N}]+|[\p{Lu}\p{N}]+(?![\p{Ll}])|_+/gu)].filter(
+      (part) => !part[0].startsWith("_"),
+    )
+    if (bare !== word) {
+      tokens.push({ term: bare.toLowerCase(), start: offset, end: offset + bare.length, primary: false })
+    }
+    if (parts.length > 1) {
+      for (const part of parts) {
+        const partStart = offset + part.index
+        tokens.push({ term: part[0].toLowerCase(), start: partStart, end: partStart + part[0].length, primary: false })
+      }
+    }
+  }
+  return tokens
+}
+
+/**
+ * Edit distance with adjacent transpositions (optimal string alignment).
+ *
+ * @param a - First string.
+ * @param b - Second string.
+ * @param max - Stop early and return `max + 1` once the distance exceeds this.
+ * @returns The number of insertions, deletions, substitutions and transpositions.
+ */
+export function editDistance(a: string, b: string, max = Number.POSITIVE_INFINITY): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1
+  }
+
+  let previous2: number[] = []
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let value = Math.min((previous[j] ?? 0) + 1, (current[j - 1] ?? 0) + 1, (previous[j - 1] ?? 0) + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, (previous2[j - 2] ?? 0) + 1)
+      }
+      current.push(value)
+      rowMin = Math.min(rowMin, value)
+    }
+    if (rowMin > max) {
+      return max + 1
+    }
+    previous2 = previous
+    previous = current
+  }
+  return previous[b.length] ?? 0
+}
+
+function allowedTypos(term: string): number {
+  return term.length < 4 ? 0 : term.length < 8 ? 1 : 2
+}
+
+function field(name: SearchFieldName, text: string | undefined): readonly SearchField[] {
+  return text ? [{ name, text }] : []
+}
+
+/**
+ * Build the documents of every reference (derived glossaries excluded)
+ * and every published registry entry.
+ *
+ * @returns Documents in registry order, reference entries before registry entries.
+ */
+export function buildSearchDocuments(): readonly SearchDocument[] {
+  const entries = getReferences().flatMap((reference): readonly SearchDocument[] =>
+    reference.kind === "glossary"
+      ? reference.entries.map((entry) => ({
+          slug: reference.slug,
+          kind: "glossary",
+          id: entry.id,
+          entry,
+          fields: [
+            ...field("fromCommand", entry.fromCommand),
+            ...field("toCommand", entry.toCommand),
+            ...getEntryAliases(entry).flatMap((alias) => field("alias", alias)),
+            ...[...mappingTexts(entry.fromMapping), ...mappingTexts(entry.toMapping)].flatMap((text) =>
+              field("mapping", text),
+            ),
+            ...field("note", entry.note),
+          ],
+        }))
+      : reference.entries.map((entry) => ({
+          slug: reference.slug,
+          kind: "cheat-sheet",
+          id: entry.id,
+          entry,
+          fields: [
+            ...field("command", entry.command),
+            ...field("description", entry.description),
+            ...field("note", entry.note),
+          ],
+        })),
+  )
+
+  const registry = getPublishedEntries().map(
+    (entry): SearchDocument => ({
+      slug: entry.slug,
+      kind: "entry",
+      id: entry.slug,
+      entry: null,
+      fields: [
+        ...field("slug", entry.slug),
+        ...field("description", entry.description),
+        ...(entry.tags ?? []).flatMap((tag) => field("tag", tag)),
+        ...getEntryTools(entry).flatMap((tool) => [
+          ...field("tool", tool.name),
+          ...field("description", tool.description),
+        ]),
+      ],
+    }),
+  )
+
+  return [...entries, ...registry]
+}
+
+interface Posting {
+  readonly document: number
+  readonly field: number
+  readonly start: number
+  readonly end: number
+}
+
+interface TermMatch {
+  /** Indexed term that matched */
+  readonly term: string
+  readonly quality: number
+  readonly postings: readonly Posting[]
+}
+
+function normalizePhrase(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim()
+}
+
+function mergeRanges(ranges: readonly (readonly [number, number])[]): readonly (readonly [number, number])[] {
+  const merged: [number, number][] = []
+  for (const [start, end] of [...ranges].sort((a, b) => a[0] - b[0] || a[1] - b[1])) {
+    const last = merged[merged.length - 1]
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end)
+    } else {
+      merged.push([start, end])
+    }
+  }
+  return merged
+}
+
+/**
+ * Build a search index.
+ *
+ * Tokenizing happens once here; each search only scans the term
+ * vocabulary (a few thousand terms) and the postings of matched terms,
+ * so it is cheap enough to run on every keystroke.
+ *
+ * @param documents - Documents to index (default: {@link buildSearchDocuments}).
+ * @returns The index.
+ */
+export function createSearchIndex(documents: readonly SearchDocument[] = buildSearchDocuments()): SearchIndex {
+  const postings = new Map<string, Posting[]>()
+  documents.forEach((document, documentIndex) => {
+    document.fields.forEach((searchField, fieldIndex) => {
+      for (const token of tokenize(searchField.text)) {
+        const list = postings.get(token.term) ?? []
+        list.push({ document: documentIndex, field: fieldIndex, start: token.start, end: token.end })
+        postings.set(token.term, list)
+      }
+    })
+  })
+  const vocabulary = [...postings.keys()]
+
+  // Documents per slug, and per term the number of documents containing it, overall and per slug.
+  const slugSizes = new Map<string, number>()
+  for (const document of documents) {
+    slugSizes.set(document.slug, (slugSizes.get(document.slug) ?? 0) + 1)
+  }
+  const frequencies = new Map<string, { readonly total: number; readonly bySlug: Map<string, number> }>()
+  for (const [term, list] of postings) {
+    const containing = new Set(list.map((posting) => posting.document))
+    const bySlug = new Map<string, number>()
+    for (const documentIndex of containing) {
+      const slug = documents[documentIndex]?.slug ?? ""
+      bySlug.set(slug, (bySlug.get(slug) ?? 0) + 1)
+    }
+    frequencies.set(term, { total: containing.size, bySlug })
+  }
+
+  // 1 for a term found in one document, towards 0 for a term found in all of them.
+  const rarity = (term: string): number =>
+    Math.log(1 + documents.length / (frequencies.get(term)?.total ?? 1)) / Math.log(1 + documents.length)
+  // Names of the tools of each entry (e.g., `git` and `jj` for jj-git).
+  const programNames = new Map(
+    getPublishedEntries().map((entry) => {
+      const names = getEntryTools(entry).flatMap((tool) => [...tokenize(tool.id), ...tokenize(tool.name)])
+      return [entry.slug, new Set(names.map((token) => token.term))] as const
+    }),
+  )
+  // Whether a term names one of a slug's tools or is in more than half of its documents.
+  const isCommon = (term: string, slug: string): boolean =>
+    (programNames.get(slug)?.has(term) ?? false) ||
+    (frequencies.get(term)?.bySlug.get(slug) ?? 0) * 2 > (slugSizes.get(slug) ?? 0)
+  const isCommonAnywhere = (term: string): boolean => [...slugSizes.keys()].some((slug) => isCommon(term, slug))
+
+  const matchTerm = (term: string): readonly TermMatch[] => {
+    const typos = allowedTypos(term)
+    const matches: TermMatch[] = []
+    for (const candidate of vocabulary) {
+      const list = postings.get(candidate) ?? []
+      if (candidate === term) {
+        matches.push({ term: candidate, quality: EXACT, postings: list })
+      } else if (term.length >= 2 && candidate.startsWith(term)) {
+        const quality = PREFIX * (0.5 + (0.5 * term.length) / candidate.length)
+        matches.push({ term: candidate, quality, postings: list })
+      } else if (typos > 0) {
+        const distance = editDistance(term, candidate, typos)
+        if (distance <= typos) {
+          matches.push({ term: candidate, quality: FUZZY / distance, postings: list })
+        }
+      }
+    }
+    return matches
+  }
+
+  const search = (query: string, options: SearchOptions = {}): readonly SearchHit[] => {
+    const terms = [...new Set(tokenize(query).filter((token) => token.primary).map((token) => token.term))]
+    if (terms.length === 0) {
+      return []
+    }
+
+    const included = (document: SearchDocument) =>
+      (!options.slugs || options.slugs.includes(document.slug)) &&
+      (!options.kinds || options.kinds.includes(document.kind))
+
+    // Best score per document and term, every matched range per document, and the
+    // documents matching a term that is not common in their slug.
+    const scores = new Map<number, number[]>()
+    const ranges = new Map<number, Map<number, [number, number][]>>()
+    const specific = new Set<number>()
+    let specificQuery = false
+    terms.forEach((term, termIndex) => {
+      if (!isCommonAnywhere(term)) {
+        specificQuery = true
+      }
+      for (const match of matchTerm(term)) {
+        for (const posting of match.postings) {
+          const document = documents[posting.document]
+          const searchField = document?.fields[posting.field]
+          if (!document || !searchField || !included(document)) continue
+
+          if (!isCommon(term, document.slug)) specific.add(posting.document)
+          const termScores = scores.get(posting.document) ?? new Array<number>(terms.length).fill(0)
+          const score = fieldWeights[searchField.name] * match.quality * rarity(match.term)
+          termScores[termIndex] = Math.max(termScores[termIndex] ?? 0, score)
+          scores.set(posting.document, termScores)
+
+          const fieldRanges = ranges.get(posting.document) ?? new Map<number, [number, number][]>()
+          fieldRanges.set(posting.field, [...(fieldRanges.get(posting.field) ?? []), [posting.start, posting.end]])
+          ranges.set(posting.document, fieldRanges)
+        }
+      }
+    })
+
+    const phrase = normalizePhrase(query)
+    const hits = [...scores].flatMap(([documentIndex, documentScores]): readonly SearchHit[] => {
+      const document = documents[documentIndex]
+      // A query term naming one of the entry's tools (`tmux split`) matches all of its documents.
+      const termScores = documentScores.map((score, termIndex) => {
+        const term = terms[termIndex] ?? ""
+        return score === 0 && document && programNames.get(document.slug)?.has(term)
+          ? fieldWeights.tool * rarity(term)
+          : score
+      })
+      const matchedTerms = termScores.filter((score) => score > 0).length
+      if (!document || (options.partial === false && matchedTerms < terms.length)) {
+        return []
+      }
+      // Only common terms matched while the query has a more specific one.
+      if (specificQuery && !specific.has(documentIndex)) {
+        return []
+      }
+
+      const inCommand = document.fields.some(
+        (searchField) => commandFields.has(searchField.name) && normalizePhrase(searchField.text).includes(phrase),
+      )
+      const score = termScores.reduce((sum, value) => sum + value, 0) * (inCommand ? PHRASE_BONUS : 1)
+      const fieldRanges = ranges.get(documentIndex) ?? new Map<number, [number, number][]>()
+      const highlights = [...fieldRanges]
+        .sort((a, b) => a[0] - b[0])
+        .flatMap(([fieldIndex, list]): readonly SearchHighlight[] => {
+          const searchField = document.fields[fieldIndex]
+          return searchField ? [{ field: searchField.name, text: searchField.text, ranges: mergeRanges(list) }] : []
+        })
+
+      return [
+        {
+          slug: document.slug,
+          kind: document.kind,
+          id: document.id,
+          entry: document.entry,
+          score: Math.round(score * 100) / 100,
+          matchedTerms,
+          highlights,
+        },
+      ]
+    })
+
+    return hits
+      .sort((a, b) => b.matchedTerms - a.matchedTerms || b.score - a.score)
+      .slice(0, options.limit ?? 20)
+  }
+
+  return { documents, search }
+}
+
+let defaultIndex: SearchIndex | null = null
+
+/**
+ * Search every glossary, cheat sheet and registry entry.
+ *
+ * The default index is built on first use and reused afterwards.
+ *
+ * @param query - Free text, a command, or a fragment typed so far.
+ * @param options - Limit and slug or kind filters.
+ * @returns Hits, best first.
+ */
+export function search(query: string, options: SearchOptions = {}): readonly SearchHit[] {
+  defaultIndex ??= createSearchIndex()
+  return defaultIndex.search(query, options)
+}
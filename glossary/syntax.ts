@@ -0,0 +1,274 @@
+/**
+ * Parser for glossary command strings.
+ *
+ * Migrates free-form strings like `"jj status (jj st)"` or
+ * `"git clone <url>"` into {@link CommandSyntax}: tokens with source
+ * offsets, typed placeholders, flags, aliases and annotations. Entries
+ * may carry the structured form directly (`fromSyntax` / `toSyntax`);
+ * {@link getCommandSyntax} falls back to parsing the string.
+ *
+ * @example
+ * ```ts
+ * import { highlightCommand, parseCommandSyntax } from "@/content/glossary/syntax"
+ *
+ * parseCommandSyntax("jj status (jj st)").aliases
+ * // ["jj st"]
+ *
+ * highlightCommand("git clone <url>")
+ * // [{ kind: "word", text: "git" }, { kind: "text", text: " " }, ..., { kind: "placeholder", text: "<url>" }]
+ * ```
+ *
+ * @module
+ */
+
+import type {
+  CommandPlaceholder,
+  CommandSyntax,
+  CommandToken,
+  GlossaryEntry,
+  PlaceholderType,
+} from "./types"
+
+/**
+ * Placeholder type by placeholder name; unknown names are `value`.
+ */
+export const placeholderTypes: Readonly<Record<string, PlaceholderType>> = {
+  url: "url",
+  commit: "revision",
+  rev: "revision",
+  onto: "revision",
+  parent: "revision",
+  source: "revision",
+  name: "ref",
+  branch: "ref",
+  bookmark: "ref",
+  old: "ref",
+  new: "ref",
+  resolved: "path",
+  file: "path",
+  path: "path",
+  operation: "operation",
+}
+
+/**
+ * Kind of a highlighted segment: a token kind, `alias`, `annotation`, or plain `text`.
+ */
+export type HighlightKind = CommandToken["kind"] | "alias" | "annotation" | "text"
+
+/**
+ * A contiguous piece of a command string, for syntax highlighting.
+ */
+export interface HighlightSegment {
+  /** Segment kind */
+  readonly kind: HighlightKind
+  /** Segment text; concatenating every segment yields the original string */
+  readonly text: string
+}
+
+const closers: Readonly<Record<string, string>> = { "(": ")", "[": "]", "{": "}" }
+const quotes = new Set(['"', "'", "`"])
+
+function placeholderOf(name: string): CommandPlaceholder {
+  return { name, type: placeholderTypes[name] ?? "value" }
+}
+
+/**
+ * Split a command into tokens at top-level whitespace.
+ *
+ * Brackets and closed quotes are kept inside one token; a lone quote
+ * (e.g., the tmux binding `Ctrl+b "`) is an ordinary character.
+ * `&&` and an unescaped trailing `;` become operators.
+ *
+ * @param command - The command (without alias or annotation).
+ * @param offset - Offset of `command` in the source string.
+ * @returns Tokens with source offsets.
+ */
+export function tokenizeCommand(command: string, offset = 0): readonly CommandToken[] {
+  const tokens: CommandToken[] = []
+  let index = 0
+
+  const push = (kind: CommandToken["kind"], start: number, end: number) => {
+    tokens.push({ kind, text: command.slice(start, end), start: offset + start, end: offset + end })
+  }
+
+  while (index < command.length) {
+    if (/\s/.test(command.charAt(index))) {
+      index++
+      continue
+    }
+
+    const start = index
+    const stack: string[] = []
+    while (index < command.length && (stack.length > 0 || !/\s/.test(command.charAt(index)))) {
+      const char = command.charAt(index)
+      if (stack.length > 0 && char === stack[stack.length - 1]) {
+        stack.pop()
+      } else if (quotes.has(char) && stack[stack.length - 1] !== "'" && command.indexOf(char, index + 1) !== -1) {
+        stack.push(char)
+      } else if (char in closers && !quotes.has(stack[stack.length - 1] ?? "")) {
+        stack.push(closers[char] ?? "")
+      }
+      index++
+    }
+
+    const text = command.slice(start, index)
+    const endsWithSeparator = text.length > 1 && text.endsWith(";") && !text.endsWith("\\;")
+    const end = endsWithSeparator ? index - 1 : index
+
+    if (text === "&&" || text === ";") {
+      push("operator", start, index)
+      continue
+    }
+
+    const word = command.slice(start, end)
+    const kind = /^<[\w-]+>$/.test(word)
+      ? "placeholder"
+      : /^--?[A-Za-z]/.test(word)
+        ? "flag"
+        : quotes.has(word.charAt(0)) && word.length > 1 && word.endsWith(word.charAt(0))
+          ? "string"
+          : "word"
+    push(kind, start, end)
+    if (endsWithSeparator) {
+      push("operator", end, index)
+    }
+  }
+
+  return tokens
+}
+
+/**
+ * Parse a glossary command string into its structured form.
+ *
+ * A trailing parenthetical preceded by a space is an alias when it
+ * starts with the command's first word (`jj status (jj st)`) and an
+ * annotation otherwise (`jj describe (on @)`). A fully parenthesized
+ * string is only an annotation (`(start new work)`).
+ *
+ * @param command - The command as written in a glossary or cheat sheet.
+ * @returns The structured form.
+ */
+export function parseCommandSyntax(command: string): CommandSyntax {
+  const trimmed = command.trim()
+  const leading = command.length - command.trimStart().length
+
+  if (/^\([^()]*\)$/.test(trimmed)) {
+    return { tokens: [], placeholders: [], flags: [], aliases: [], annotation: trimmed.slice(1, -1) }
+  }
+
+  const suffix = /^(.*?)\s+\(([^()]*)\)$/.exec(trimmed)
+  const main = suffix?.[1] ?? trimmed
+  const extra = suffix?.[2]
+  const tokens = tokenizeCommand(main, leading)
+
+  const firstWord = tokens[0]?.text
+  const isAlias = extra !== undefined && firstWord !== undefined && extra.startsWith(`${firstWord} `)
+
+  const names = [...main.matchAll(/<([\w-]+)>/g)].map((match) => match[1] ?? "")
+  return {
+    tokens,
+    placeholders: [...new Set(names)].map(placeholderOf),
+    flags: [...new Set(tokens.filter((token) => token.kind === "flag").map((token) => token.text))],
+    aliases: isAlias ? [extra] : [],
+    ...(extra !== undefined && !isAlias && { annotation: extra }),
+  }
+}
+
+/**
+ * Render a structured command back to the glossary string form.
+ *
+ * Tokens are joined with single spaces (separators attach to the
+ * preceding token), followed by the first alias or the annotation in
+ * parentheses.
+ *
+ * @param syntax - The structured form.
+ * @returns The command string.
+ */
+export function formatCommandSyntax(syntax: CommandSyntax): string {
+  const main = syntax.tokens.reduce(
+    (text, token) => (!text ? token.text : token.text === ";" ? `${text};` : `${text} ${token.text}`),
+    "",
+  )
+  const extra = syntax.aliases[0] ?? syntax.annotation
+  if (extra === undefined) return main
+  return main ? `${main} (${extra})` : `(${extra})`
+}
+
+/**
+ * Get the structured form of one side of an entry.
+ *
+ * @param entry - The glossary entry.
+ * @param side - Which command to read.
+ * @returns The entry's own structured form, or the parsed string.
+ */
+export function getCommandSyntax(entry: GlossaryEntry, side: "fromCommand" | "toCommand"): CommandSyntax {
+  const syntax = side === "fromCommand" ? entry.fromSyntax : entry.toSyntax
+  return syntax ?? parseCommandSyntax(entry[side])
+}
+
+/**
+ * Get the aliases of both sides of an entry, e.g. `jj st` for "jj status (jj st)".
+ *
+ * @param entry - The glossary entry.
+ * @returns The aliases of fromCommand, then toCommand.
+ */
+export function getEntryAliases(entry: GlossaryEntry): readonly string[] {
+  return [...getCommandSyntax(entry, "fromCommand").aliases, ...getCommandSyntax(entry, "toCommand").aliases]
+}
+
+/**
+ * Attach parsed structured forms to an entry that does not have them.
+ *
+ * @param entry - The glossary entry.
+ * @returns The entry with `fromSyntax` and `toSyntax` set.
+ */
+export function migrateEntry<E extends GlossaryEntry>(entry: E): E {
+  return {
+    ...entry,
+    fromSyntax: getCommandSyntax(entry, "fromCommand"),
+    toSyntax: getCommandSyntax(entry, "toCommand"),
+  }
+}
+
+/**
+ * Split a command string into segments for syntax highlighting.
+ *
+ * Placeholders embedded in a word (e.g., `<bookmark>@origin`) get their
+ * own segment.
+ *
+ * @param command - The command as written in a glossary or cheat sheet.
+ * @returns Segments covering the whole string, in order.
+ */
+export function highlightCommand(command: string): readonly HighlightSegment[] {
+  const syntax = parseCommandSyntax(command)
+  const segments: HighlightSegment[] = []
+  let position = 0
+
+  const text = (end: number) => {
+    if (end > position) segments.push({ kind: "text", text: command.slice(position, end) })
+    position = Math.max(position, end)
+  }
+
+  for (const token of syntax.tokens) {
+    text(token.start)
+    if (token.kind === "word" || token.kind === "flag") {
+      for (const part of token.text.split(/(<[\w-]+>)/)) {
+        if (part) segments.push({ kind: /^<[\w-]+>$/.test(part) ? "placeholder" : token.kind, text: part })
+      }
+    } else {
+      segments.push({ kind: token.kind, text: token.text })
+    }
+    position = token.end
+  }
+
+  const extra = syntax.aliases[0] ?? syntax.annotation
+  if (extra !== undefined) {
+    const start = command.lastIndexOf(extra)
+    text(start)
+    segments.push({ kind: syntax.aliases.length > 0 ? "alias" : "annotation", text: extra })
+    position = start + extra.length
+  }
+  text(command.length)
+
+  return segments
+}
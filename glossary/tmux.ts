@@ -7,7 +7,8 @@
  * @module
  */
 
-import type { CheatSheetEntry as SharedCheatSheetEntry } from "./types"
+import type { ContentVerification } from "../tools"
+import { type CheatSheetEntry as SharedCheatSheetEntry, createCheatSheetHelpers } from "./types"
 
 /**
  * Cheat sheet category types for tmux command groupings.
@@ -31,6 +32,17 @@ export interface CheatSheetEntry extends SharedCheatSheetEntry {
   readonly category: CheatSheetCategory
 }
 
+/**
+ * Tool versions the tmux cheat sheet targets and when it was last verified.
+ *
+ * Verified by resolving every `tmux` command and default `Ctrl+b` binding
+ * against tmux 3.3a.
+ */
+export const verification: ContentVerification = {
+  toolVersions: { tmux: "3" },
+  verifiedAt: "2026-10-19",
+}
+
 /**
  * Complete cheat sheet data for tmux.
  *
@@ -368,6 +380,20 @@ export const tmuxCheatSheet: readonly CheatSheetEntry[] = [
   },
 ] as const
 
+/**
+ * Display order of categories.
+ */
+const categoryOrder: readonly CheatSheetCategory[] = [
+  "SESSIONS",
+  "WINDOWS",
+  "PANES",
+  "NAVIGATION",
+  "COPY_MODE",
+  "CONFIG",
+]
+
+const helpers = createCheatSheetHelpers(tmuxCheatSheet, categoryOrder)
+
 /**
  * Get all unique categories from cheat sheet entries.
  *
@@ -382,22 +408,7 @@ export const tmuxCheatSheet: readonly CheatSheetEntry[] = [
  * ```
  */
 export function getCategories(): readonly CheatSheetCategory[] {
-  const categoryOrder: readonly CheatSheetCategory[] = [
-    "SESSIONS",
-    "WINDOWS",
-    "PANES",
-    "NAVIGATION",
-    "COPY_MODE",
-    "CONFIG",
-  ]
-
-  const categories = new Set<CheatSheetCategory>()
-  for (const entry of tmuxCheatSheet) {
-    categories.add(entry.category)
-  }
-
-  // Return in defined order
-  return categoryOrder.filter((cat) => categories.has(cat))
+  return helpers.getCategories()
 }
 
 /**
@@ -419,7 +430,7 @@ export function filterByCategory(
   entries: readonly CheatSheetEntry[],
   category: CheatSheetCategory,
 ): readonly CheatSheetEntry[] {
-  return entries.filter((entry) => entry.category === category)
+  return helpers.filterByCategory(entries, category)
 }
 
 /**
@@ -447,16 +458,5 @@ export function searchEntries(
   entries: readonly CheatSheetEntry[],
   query: string,
 ): readonly CheatSheetEntry[] {
-  if (!query) {
-    return entries
-  }
-
-  const lowerQuery = query.toLowerCase()
-
-  return entries.filter(
-    (entry) =>
-      entry.command.toLowerCase().includes(lowerQuery) ||
-      entry.description.toLowerCase().includes(lowerQuery) ||
-      (entry.note?.toLowerCase().includes(lowerQuery)),
-  )
+  return helpers.searchEntries(entries, query)
 }
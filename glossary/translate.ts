@@ -0,0 +1,360 @@
+/**
+ * git → jj command line translator.
+ *
+ * Parses a git command line into its subcommand, flags and positional
+ * arguments, matches it against the parameterized git side of the
+ * jj-git glossary (e.g., `git checkout -b <name> <commit>`), and
+ * substitutes the arguments into the jj side and its note. Revisions
+ * are converted to jj syntax (`HEAD~1` → `@--`, `origin/main` →
+ * `main@origin`).
+ *
+ * @example
+ * ```ts
+ * import { translateGitCommand } from "@/content/glossary/translate"
+ *
+ * translateGitCommand("git checkout -b feature origin/main").best
+ * // { command: "jj new main@origin; jj bookmark create feature", confidence: 1, ... }
+ * ```
+ *
+ * @module
+ */
+
+import { getReference } from "./index"
+import { getMapping } from "./mapping"
+import { parseCommandSyntax, placeholderTypes, tokenizeCommand } from "./syntax"
+import type { GlossaryEntry } from "./types"
+
+/**
+ * A parsed command line.
+ */
+export interface ParsedCommandLine {
+  /** Program name (e.g., "git") */
+  readonly program: string
+  /** Flags in order, without `=value` parts (e.g., `["-b"]`) */
+  readonly flags: readonly string[]
+  /** Positional arguments in order, starting with the subcommand */
+  readonly positionals: readonly string[]
+}
+
+/**
+ * A glossary entry matched against a command line.
+ */
+export interface Translation {
+  /** The matched glossary entry */
+  readonly entry: GlossaryEntry
+  /** The git template that matched (e.g., "git checkout -b <name>") */
+  readonly template: string
+  /** jj command line with arguments substituted, or `null` when jj has no equivalent */
+  readonly command: string | null
+  /** Note from the glossary, with arguments substituted */
+  readonly note: string
+  /** Why jj has no equivalent (when `command` is `null`), with arguments substituted */
+  readonly explanation?: string
+  /** Match quality between 0 and 1 (1 when every argument was used and every placeholder filled) */
+  readonly confidence: number
+  /** Placeholder values taken from the command line */
+  readonly bindings: Readonly<Record<string, string>>
+  /** Arguments of the command line that the template does not cover */
+  readonly unmatched: readonly string[]
+  /**
+   * Keys of `bindings` that the jj command does not use (e.g., `commit` for
+   * `git reset --hard <commit>`, since jj restores an operation instead)
+   */
+  readonly unused: readonly string[]
+  /** Placeholders left in `command` that the user still has to fill in (e.g., `["<operation>"]`) */
+  readonly needsInput: readonly string[]
+}
+
+/**
+ * Result of {@link translateGitCommand}.
+ */
+export interface TranslationResult {
+  /** The command line as given */
+  readonly input: string
+  /**
+   * Best match, or `null` when no template fits or when templates of
+   * several entries fit and differ only by their annotations (e.g.,
+   * `git rebase -i (fixup)` and `git rebase -i (split)`)
+   */
+  readonly best: Translation | null
+  /** Every fitting match, best first */
+  readonly candidates: readonly Translation[]
+  /** Closest entries by shared words, when nothing fits */
+  readonly closest: readonly GlossaryEntry[]
+}
+
+/**
+ * Equivalent spellings of git flags, mapped to the spelling used in the glossary.
+ */
+export const gitFlagAliases: Readonly<Record<string, string>> = {
+  "--cached": "--staged",
+  "--interactive": "-i",
+  "--delete": "-d",
+  "-D": "-d",
+  "--move": "-m",
+  "-M": "-m",
+  "--message": "-m",
+  "--set-upstream": "-u",
+}
+
+// Penalties applied to a perfect match.
+const UNMATCHED_PENALTY = 0.2
+const UNUSED_PENALTY = 0.2
+const UNBOUND_PENALTY = 0.15
+const NEEDS_INPUT_PENALTY = 0.3
+const ANNOTATED_PENALTY = 0.05
+const WORKFLOW_PENALTY = 0.3
+
+/**
+ * Split a command line into program, flags and positional arguments.
+ *
+ * Quotes around arguments are removed; `--flag=value` yields the flag
+ * and a positional `value`. A bare `--` counts as a flag, since it
+ * changes how git reads the arguments after it.
+ *
+ * @param line - The command line (e.g., `git commit -m "msg"`), or its
+ *   words as the shell split them (e.g., `process.argv`), which are taken as they are.
+ * @returns The parsed command line.
+ */
+export function parseCommandLine(line: string | readonly string[]): ParsedCommandLine {
+  const words =
+    typeof line === "string"
+      ? tokenizeCommand(line.trim()).map((token) => (token.kind === "string" ? token.text.slice(1, -1) : token.text))
+      : line
+  const [program = "", ...rest] = words
+  const flags: string[] = []
+  const positionals: string[] = []
+  for (const token of rest) {
+    if (/^--?[A-Za-z]/.test(token) || token === "--") {
+      const [flag = token, value] = token.split(/=(.*)/s)
+      flags.push(gitFlagAliases[flag] ?? flag)
+      if (value) positionals.push(value)
+    } else {
+      positionals.push(token)
+    }
+  }
+  return { program, flags, positionals }
+}
+
+/**
+ * Convert a git revision to jj syntax.
+ *
+ * `HEAD` is the parent of jj's working-copy commit, so `HEAD` → `@-`
+ * and `HEAD~2` → `@---`; remote-tracking branches become
+ * `<branch>@<remote>`. Anything else is returned unchanged.
+ *
+ * @param revision - A git revision.
+ * @returns The jj revision.
+ */
+export function toJjRevision(revision: string): string {
+  const head = /^HEAD((?:[~^]\d*)*)$/.exec(revision)
+  if (head) {
+    let depth = 1
+    for (const [, op, count] of (head[1] ?? "").matchAll(/([~^])(\d*)/g)) {
+      depth += op === "~" ? Number(count || 1) : count === "" || count === "1" ? 1 : 0
+    }
+    return `@${"-".repeat(depth)}`
+  }
+  const remote = /^(origin|upstream)\/(.+)$/.exec(revision)
+  return remote ? `${remote[2]}@${remote[1]}` : revision
+}
+
+interface Template {
+  readonly entry: GlossaryEntry
+  readonly text: string
+  readonly flags: readonly string[]
+  /** Literal words, `<placeholder>` names prefixed with `<`, or quoted strings */
+  readonly positionals: readonly string[]
+  readonly annotated: boolean
+  /** First step of a workflow of several git commands */
+  readonly workflow: boolean
+}
+
+function templatesOf(entry: GlossaryEntry): readonly Template[] {
+  const mapping = getMapping(entry, "fromCommand")
+  // A workflow of several git commands is recognized by its first one, which alone does not say where it leads.
+  const commands =
+    mapping.kind === "alternatives" ? mapping.commands : mapping.kind === "sequence" ? mapping.steps.slice(0, 1) : []
+
+  return commands.flatMap((command) => {
+    const syntax = parseCommandSyntax(command)
+    const [program, ...rest] = syntax.tokens
+    if (program?.text !== "git" || rest.some((token) => token.kind === "operator")) {
+      return []
+    }
+    return [
+      {
+        entry,
+        text: command,
+        flags: rest.filter((token) => token.kind === "flag").map((token) => token.text),
+        positionals: rest.filter((token) => token.kind !== "flag").map((token) => token.text),
+        annotated: syntax.annotation !== undefined || mapping.kind === "sequence",
+        workflow: mapping.kind === "sequence",
+      },
+    ]
+  })
+}
+
+function substitute(
+  text: string,
+  bindings: Readonly<Record<string, string>>,
+): { readonly text: string; readonly used: ReadonlySet<string> } {
+  const boundTypes = new Map<string, string[]>()
+  for (const name of Object.keys(bindings)) {
+    const type = placeholderTypes[name] ?? "value"
+    boundTypes.set(type, [...(boundTypes.get(type) ?? []), name])
+  }
+
+  const used = new Set<string>()
+  const substituted = text.replace(/<([\w-]+)>|"[^"]*"/g, (token, name: string | undefined) => {
+    if (name === undefined) {
+      if (bindings[token] === undefined) return token
+      used.add(token)
+      return `"${bindings[token]}"`
+    }
+    // Fall back to the only bound value of the same type (e.g., <commit> for <rev>).
+    const sameType = boundTypes.get(placeholderTypes[name] ?? "value") ?? []
+    const bound = bindings[name] === undefined ? (sameType.length === 1 ? sameType[0] : undefined) : name
+    const value = bound === undefined ? undefined : bindings[bound]
+    if (bound === undefined || value === undefined) {
+      return token
+    }
+    used.add(bound)
+    return placeholderTypes[name] === "revision" ? toJjRevision(value) : value
+  })
+  return { text: substituted, used }
+}
+
+function jjCommand(entry: GlossaryEntry): string | null {
+  const mapping = getMapping(entry, "toCommand")
+  if (mapping.kind === "none") {
+    return null
+  }
+  if (mapping.kind === "sequence") {
+    return mapping.steps.join("; ")
+  }
+  // Drop aliases and annotations such as "(jj st)" or "(on @)".
+  const syntax = parseCommandSyntax(mapping.commands[0] ?? "")
+  const first = syntax.tokens[0]
+  const last = syntax.tokens[syntax.tokens.length - 1]
+  return first && last ? (mapping.commands[0] ?? "").slice(first.start, last.end) : null
+}
+
+function match(template: Template, line: ParsedCommandLine): Translation | null {
+  // A flag the template does not know may change what the command does (e.g., `rebase -i`).
+  if (
+    !template.flags.every((flag) => line.flags.includes(flag)) ||
+    !line.flags.every((flag) => template.flags.includes(flag))
+  ) {
+    return null
+  }
+
+  const bindings: Record<string, string> = {}
+  const unmatched: string[] = []
+  let unbound = 0
+
+  for (const [index, expected] of template.positionals.entries()) {
+    const actual = line.positionals[index]
+    const placeholder = /^<([\w-]+)>$/.exec(expected)?.[1]
+    if (placeholder !== undefined || /^["']/.test(expected)) {
+      if (actual === undefined) unbound++
+      else bindings[placeholder ?? expected] = actual
+    } else if (actual !== expected) {
+      return null
+    }
+  }
+  unmatched.push(...line.positionals.slice(template.positionals.length))
+
+  const entry = template.entry
+  const mapping = getMapping(entry, "toCommand")
+  const jj = jjCommand(entry)
+  const substituted = jj === null ? null : substitute(jj, bindings)
+  const command = substituted?.text ?? null
+  const needsInput = command === null ? [] : [...new Set(command.match(/<[\w-]+>/g) ?? [])]
+  const unused = substituted ? Object.keys(bindings).filter((name) => !substituted.used.has(name)) : []
+  const confidence =
+    1 -
+    unmatched.length * UNMATCHED_PENALTY -
+    unused.length * UNUSED_PENALTY -
+    unbound * UNBOUND_PENALTY -
+    needsInput.length * NEEDS_INPUT_PENALTY -
+    (template.annotated ? ANNOTATED_PENALTY : 0) -
+    (template.workflow ? WORKFLOW_PENALTY : 0)
+
+  return {
+    entry,
+    template: template.text,
+    command,
+    note: substitute(entry.note, bindings).text,
+    ...(mapping.kind === "none" && { explanation: substitute(mapping.explanation, bindings).text }),
+    confidence: Math.max(0.1, Math.round(confidence * 100) / 100),
+    bindings,
+    unmatched,
+    unused,
+    needsInput,
+  }
+}
+
+function words(text: string): ReadonlySet<string> {
+  return new Set(text.toLowerCase().split(/[^a-z0-9-]+/).filter((word) => word && word !== "git"))
+}
+
+/**
+ * Translate a git command line to jj using the jj-git glossary.
+ *
+ * The subcommand and literal arguments of a template must match
+ * exactly and the flags of both must be the same; extra arguments,
+ * missing placeholders, arguments the jj command does not use and
+ * placeholders left in the jj command lower the confidence. Ties keep
+ * glossary order.
+ *
+ * Annotations such as `(fixup)` and `(split)` tell apart what the
+ * command line cannot say: when the best match is annotated and an
+ * annotated template of another entry fits too, there is no best
+ * match and the candidates are left to the caller.
+ *
+ * @param line - A git command line (e.g., `git checkout -b feature origin/main`), or
+ *   its words as the shell split them.
+ * @param closestCount - How many closest entries to return when nothing matches (default 3).
+ * @returns The best match, every candidate, and the closest entries when nothing matches.
+ */
+export function translateGitCommand(line: string | readonly string[], closestCount = 3): TranslationResult {
+  const input = typeof line === "string" ? line : line.map((word) => (/\s/.test(word) ? `"${word}"` : word)).join(" ")
+  const reference = getReference("jj-git")
+  if (reference?.kind !== "glossary") {
+    return { input, best: null, candidates: [], closest: [] }
+  }
+
+  const parsed = parseCommandLine(line)
+  const templates = reference.entries.flatMap(templatesOf)
+  const matches =
+    parsed.program === "git"
+      ? templates
+          .flatMap((template) => {
+            const translation = match(template, parsed)
+            return translation ? [{ translation, annotated: template.annotated }] : []
+          })
+          .sort((a, b) => b.translation.confidence - a.translation.confidence)
+      : []
+  const candidates = matches.map(({ translation }) => translation)
+
+  if (candidates.length > 0) {
+    const annotatedEntries = new Set(matches.flatMap((item) => (item.annotated ? [item.translation.entry.id] : [])))
+    const ambiguous = matches[0]?.annotated === true && annotatedEntries.size > 1
+    return { input, best: ambiguous ? null : (candidates[0] ?? null), candidates, closest: [] }
+  }
+
+  const query = words(input)
+  const closest = reference.entries
+    .map((entry) => {
+      const entryWords = words(entry.fromCommand)
+      const shared = [...query].filter((word) => entryWords.has(word)).length
+      return { entry, score: shared / Math.max(1, new Set([...query, ...entryWords]).size) }
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, closestCount)
+    .map(({ entry }) => entry)
+
+  return { input, best: null, candidates: [], closest }
+}
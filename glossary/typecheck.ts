@@ -0,0 +1,269 @@
+/**
+ * Type-check the Effect side of the Effect ← ZIO glossary against the real `effect` package.
+ *
+ * Each entry is turned into a small TypeScript probe: `...` becomes a
+ * hole, free identifiers such as `fa` or `A` are declared as `any`, and
+ * alternatives like `Ref.get/set/update(ref, ...)` are expanded into one
+ * call each. Entries that are not valid code on their own (e.g.,
+ * `HttpClient service`) fall back to probing the members they mention.
+ * The probes are compiled together with the TypeScript compiler API,
+ * resolving `effect` from a local `node_modules`.
+ *
+ * @example
+ * ```ts
+ * import { checkEffectGlossary } from "@/content/glossary/typecheck"
+ *
+ * checkEffectGlossary({ projectRoot: process.cwd() })
+ *   .filter((issue) => issue.kind === "missing-member" || issue.kind === "renamed-member")
+ * ```
+ *
+ * @module
+ */
+
+import { dirname, join } from "node:path"
+import ts from "typescript"
+import { getReference } from "./index"
+import { commandForTool } from "./lookup"
+
+/**
+ * Kinds of type-check problems.
+ *
+ * - `missing-member`: the entry references a member the package does not export
+ * - `renamed-member`: as above, and the compiler suggests a similarly named member
+ * - `unresolved-module`: the package providing a module is not installed
+ * - `type-error`: the probe compiles to any other error (e.g., wrong arity)
+ */
+export type TypeCheckIssueKind = "missing-member" | "renamed-member" | "unresolved-module" | "type-error"
+
+/**
+ * A single type-check problem.
+ */
+export interface TypeCheckIssue {
+  /** Kind of problem */
+  readonly kind: TypeCheckIssueKind
+  /** Glossary entry id */
+  readonly id: string
+  /** Effect-side command as written in the glossary */
+  readonly command: string
+  /** Member the compiler suggests instead (for `renamed-member`) */
+  readonly suggestion?: string
+  /** Compiler message */
+  readonly message: string
+  /** Generated probe source, for debugging */
+  readonly probe: string
+}
+
+/**
+ * Options for {@link checkEffectGlossary}.
+ */
+export interface TypeCheckOptions {
+  /** Directory whose `node_modules` provides `effect` (default: the current working directory) */
+  readonly projectRoot?: string
+  /** Glossary to check (default "effect-zio") */
+  readonly slug?: string
+  /** Only check these entry ids */
+  readonly ids?: readonly string[]
+}
+
+/**
+ * Package providing each module namespace used in the glossary.
+ */
+export const effectModules: Readonly<Record<string, string>> = {
+  Context: "effect",
+  Effect: "effect",
+  Fiber: "effect",
+  Layer: "effect",
+  Ref: "effect",
+  Schema: "effect",
+  Sink: "effect",
+  Stream: "effect",
+  HttpClient: "@effect/platform",
+  SqlClient: "@effect/sql",
+}
+
+const reservedWords = new Set([
+  "any",
+  "class",
+  "const",
+  "extends",
+  "false",
+  "function",
+  "let",
+  "new",
+  "null",
+  "return",
+  "this",
+  "true",
+  "typeof",
+  "undefined",
+  "yield",
+])
+
+const memberCodes = new Set([2305, 2339, 2551, 2694, 2724])
+const moduleCodes = new Set([2307])
+
+/**
+ * Expand `/`-separated alternatives into separate commands.
+ *
+ * @param command - A glossary command (e.g., `Ref.get/set/update(ref, ...)`).
+ * @returns One command per alternative (e.g., `Ref.get(ref, ...)`, `Ref.set(ref, ...)`, ...); `...` alternatives are dropped.
+ */
+export function expandAlternatives(command: string): readonly string[] {
+  const match = /^(.*?)((?:[\w$]+\/)+(?:[\w$]+|\.\.\.))(.*)$/.exec(command)
+  if (!match) {
+    return [command]
+  }
+  const [, before = "", alternatives = "", after = ""] = match
+  return alternatives
+    .split("/")
+    .filter((name) => name !== "...")
+    .flatMap((name) => expandAlternatives(`${before}${name}${after}`))
+}
+
+function fillHoles(command: string): string {
+  return command
+    .replace(/,\s*\.\.\.\s*\)/g, ")")
+    .replace(/\(\s*\.\.\.\s*\)/g, "(__hole)")
+    .replace(/\.\.\./g, "__hole")
+}
+
+function freeIdentifiers(code: string): readonly string[] {
+  const names = new Set<string>()
+  for (const match of code.matchAll(/(?<![.\w$])[A-Za-z_$][\w$]*/g)) {
+    const name = match[0]
+    if (!reservedWords.has(name) && !(name in effectModules)) {
+      names.add(name)
+    }
+  }
+  return [...names]
+}
+
+function header(code: string): string {
+  const byPackage = new Map<string, string[]>()
+  for (const [name, pkg] of Object.entries(effectModules)) {
+    if (new RegExp(`(?<![.\\w$])${name}\\b`).test(code)) {
+      byPackage.set(pkg, [...(byPackage.get(pkg) ?? []), name])
+    }
+  }
+  const imports = [...byPackage].map(([pkg, names]) => `import { ${names.join(", ")} } from "${pkg}"`)
+  const holes = freeIdentifiers(code).map((name) => `declare const ${name}: any; type ${name} = any`)
+  return [...imports, ...holes].join("\n")
+}
+
+function hasSyntaxErrors(code: string): boolean {
+  const result = ts.transpileModule(code, { reportDiagnostics: true, compilerOptions: { noEmit: true } })
+  return (result.diagnostics ?? []).length > 0
+}
+
+/**
+ * Turn an Effect-side glossary command into a TypeScript probe.
+ *
+ * Types like `Effect<A, E, R>` become `Effect.Effect<A, E, R>`;
+ * expressions are placed inside a generator so `yield*` is allowed;
+ * anything else is reduced to the module members it mentions.
+ *
+ * @param command - The command as written in the glossary.
+ * @returns Probe source for a standalone module.
+ */
+export function createProbe(command: string): string {
+  const snippets = expandAlternatives(command).map(fillHoles)
+  const statements = snippets.map((snippet, index) => {
+    const type = /^([A-Z][\w$]*)(<.*>)$/.exec(snippet)
+    if (type) {
+      const [, name = "", args = ""] = type
+      return `type __Probe${index} = ${name in effectModules ? `${name}.${name}` : name}${args}`
+    }
+    return `function* __probe${index}() {\n  ${snippet}\n}`
+  })
+
+  const code = `${header(snippets.join("\n"))}\n${statements.join("\n")}\nexport {}\n`
+  if (!hasSyntaxErrors(code)) {
+    return code
+  }
+
+  // Not valid code on its own: probe every mentioned module and member instead.
+  const references = [...command.matchAll(/(?<![.\w$])([A-Z][\w$]*)(?:\.([\w$]+))?/g)]
+    .filter(([, name = ""]) => name in effectModules)
+    .map(([reference]) => reference)
+  const unique = [...new Set(references)]
+  const fallback = unique.map((reference, index) => `const __probe${index} = ${reference}`)
+  return `${header(unique.join("\n"))}\n${fallback.join("\n")}\nexport {}\n`
+}
+
+function suggestionOf(message: string): string | undefined {
+  return /Did you mean '([^']+)'/.exec(message)?.[1]
+}
+
+/**
+ * Type-check every Effect-side command of the Effect ← ZIO glossary.
+ *
+ * @param options - Project root for module resolution, glossary slug and entry filter.
+ * @returns Problems found, in glossary order (empty when every probe compiles).
+ * @throws {Error} If the slug is not a comparison glossary covering Effect.
+ */
+export function checkEffectGlossary(options: TypeCheckOptions = {}): readonly TypeCheckIssue[] {
+  const slug = options.slug ?? "effect-zio"
+  const reference = getReference(slug)
+  if (reference?.kind !== "glossary") {
+    throw new Error(`"${slug}" is not a comparison glossary`)
+  }
+
+  const root = options.projectRoot ?? process.cwd()
+  const probes = new Map<string, { readonly id: string; readonly command: string; readonly probe: string }>()
+  for (const entry of reference.entries) {
+    if (options.ids && !options.ids.includes(entry.id)) continue
+    const command = commandForTool(reference, entry, "effect")
+    if (command === null) {
+      throw new Error(`"${slug}" does not cover effect`)
+    }
+    probes.set(join(root, `__glossary-probe-${entry.id}.ts`), { id: entry.id, command, probe: createProbe(command) })
+  }
+
+  const compilerOptions: ts.CompilerOptions = {
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    strict: true,
+    noEmit: true,
+    skipLibCheck: true,
+    types: [],
+  }
+
+  // Probes live in memory next to the project's node_modules; everything else comes from disk.
+  const host = ts.createCompilerHost(compilerOptions)
+  const readFile = host.readFile.bind(host)
+  const fileExists = host.fileExists.bind(host)
+  const getSourceFile = host.getSourceFile.bind(host)
+  host.readFile = (file) => probes.get(file)?.probe ?? readFile(file)
+  host.fileExists = (file) => probes.has(file) || fileExists(file)
+  host.getSourceFile = (file, languageVersion, onError, shouldCreate) => {
+    const probe = probes.get(file)
+    return probe
+      ? ts.createSourceFile(file, probe.probe, languageVersion, true)
+      : getSourceFile(file, languageVersion, onError, shouldCreate)
+  }
+  host.getCurrentDirectory = () => root
+  host.getDefaultLibLocation = () => dirname(ts.getDefaultLibFilePath(compilerOptions))
+
+  const program = ts.createProgram([...probes.keys()], compilerOptions, host)
+  const issues: TypeCheckIssue[] = []
+
+  for (const [file, { id, command, probe }] of probes) {
+    const sourceFile = program.getSourceFile(file)
+    const diagnostics = sourceFile ? ts.getPreEmitDiagnostics(program, sourceFile) : []
+    for (const diagnostic of diagnostics) {
+      const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n")
+      const suggestion = suggestionOf(message)
+      const kind: TypeCheckIssueKind = moduleCodes.has(diagnostic.code)
+        ? "unresolved-module"
+        : memberCodes.has(diagnostic.code)
+          ? suggestion
+            ? "renamed-member"
+            : "missing-member"
+          : "type-error"
+      issues.push({ kind, id, command, ...(suggestion !== undefined && { suggestion }), message, probe })
+    }
+  }
+
+  return issues
+}
@@ -7,11 +7,18 @@
  * @module
  */
 
+import { mappingTexts } from "./mapping"
+import { getEntryAliases } from "./syntax"
+
 /**
  * Glossary entry type that can be extended by specific tool pairings.
  *
  * Each tool pairing should define its own GlossaryCategory union type
  * and use this interface for the entry structure.
+ *
+ * Which tool each command column holds varies between glossaries and is
+ * declared by `GlossaryReference.columns`; use `lookup` from `./lookup`
+ * for direction-aware access.
  */
 export interface GlossaryEntry {
   /** Unique identifier for React keys */
@@ -24,6 +31,85 @@ export interface GlossaryEntry {
   readonly toCommand: string
   /** Optional note about differences or usage */
   readonly note: string
+  /** Structured form of `fromCommand` (parse with `parseCommandSyntax` from `./syntax` when absent) */
+  readonly fromSyntax?: CommandSyntax
+  /** Structured form of `toCommand` (parse with `parseCommandSyntax` from `./syntax` when absent) */
+  readonly toSyntax?: CommandSyntax
+  /** Mapping of the `fromCommand` side when it is not a single command (see `./mapping`) */
+  readonly fromMapping?: CommandMapping
+  /** Mapping of the `toCommand` side when it is not a single command (see `./mapping`) */
+  readonly toMapping?: CommandMapping
+}
+
+/**
+ * One side of a mapping that is not a single command.
+ *
+ * - `alternatives`: any of several commands does the job
+ * - `sequence`: several commands run in order
+ * - `none`: the tool has no equivalent, with the reason
+ *
+ * `fromCommand` / `toCommand` stay as the one-line summary shown in
+ * tables and used by existing consumers.
+ */
+export type CommandMapping =
+  | { readonly kind: "alternatives"; readonly commands: readonly string[] }
+  | { readonly kind: "sequence"; readonly steps: readonly string[] }
+  | { readonly kind: "none"; readonly explanation: string }
+
+/**
+ * Kind of value a placeholder like `<url>` or `<commit>` stands for.
+ */
+export type PlaceholderType = "url" | "revision" | "ref" | "path" | "operation" | "value"
+
+/**
+ * A placeholder in a command (e.g., `<url>`).
+ */
+export interface CommandPlaceholder {
+  /** Name without angle brackets (e.g., "url") */
+  readonly name: string
+  /** Kind of value expected */
+  readonly type: PlaceholderType
+}
+
+/**
+ * A token of a command, with its position in the source string.
+ *
+ * - `word`: program, subcommand, argument or API (e.g., `jj`, `ZIO.succeed(x)`)
+ * - `flag`: an option (e.g., `--staged`, `-m`)
+ * - `placeholder`: a whole-token placeholder (e.g., `<url>`)
+ * - `string`: a quoted argument (e.g., `"msg"`)
+ * - `operator`: a command separator (`&&` or `;`)
+ */
+export interface CommandToken {
+  /** Token kind */
+  readonly kind: "word" | "flag" | "placeholder" | "string" | "operator"
+  /** Token text as written */
+  readonly text: string
+  /** Offset of the first character in the source string */
+  readonly start: number
+  /** Offset after the last character in the source string */
+  readonly end: number
+}
+
+/**
+ * Structured form of a glossary command.
+ *
+ * `"jj status (jj st)"` has the tokens `jj` `status` and the alias
+ * `jj st`; `"git checkout <commit> (edit)"` has a `<commit>`
+ * placeholder and the annotation `edit`; `"(start new work)"` has no
+ * tokens, only an annotation.
+ */
+export interface CommandSyntax {
+  /** Tokens of the main command */
+  readonly tokens: readonly CommandToken[]
+  /** Placeholders anywhere in the main command, in order of first appearance */
+  readonly placeholders: readonly CommandPlaceholder[]
+  /** Flags of the main command (e.g., `["-i"]`) */
+  readonly flags: readonly string[]
+  /** Equivalent shorter forms (e.g., `["jj st"]`) */
+  readonly aliases: readonly string[]
+  /** Clarifying text that is not part of the command (e.g., "edit") */
+  readonly annotation?: string
 }
 
 /**
@@ -44,3 +130,99 @@ export interface CheatSheetEntry {
   /** Optional note about usage or caveats */
   readonly note?: string
 }
+
+/**
+ * Category, filter and search helpers shared by every glossary module.
+ *
+ * `E` is the module's entry type and `C` its category union.
+ */
+export interface ReferenceHelpers<E extends { readonly category: string }, C extends E["category"]> {
+  /** Categories present in the data, in the module's display order */
+  readonly getCategories: () => readonly C[]
+  /** Entries of the given category */
+  readonly filterByCategory: (entries: readonly E[], category: C) => readonly E[]
+  /** Case-insensitive partial match across the searchable fields (empty query returns all) */
+  readonly searchEntries: (entries: readonly E[], query: string) => readonly E[]
+}
+
+/**
+ * Build reference helpers for any entry type.
+ *
+ * @param entries - The module's complete data
+ * @param categoryOrder - Display order of categories
+ * @param searchFields - Fields matched by `searchEntries`
+ * @returns Helpers bound to the data and category order
+ */
+export function createReferenceHelpers<E extends { readonly category: string }, C extends E["category"]>(
+  entries: readonly E[],
+  categoryOrder: readonly C[],
+  searchFields: (entry: E) => readonly (string | undefined)[],
+): ReferenceHelpers<E, C> {
+  return {
+    getCategories: () => {
+      const categories = new Set<string>(entries.map((entry) => entry.category))
+      // Return in defined order
+      return categoryOrder.filter((category) => categories.has(category))
+    },
+    filterByCategory: (list, category) => list.filter((entry) => entry.category === category),
+    searchEntries: (list, query) => {
+      if (!query) {
+        return list
+      }
+
+      const lowerQuery = query.toLowerCase()
+
+      return list.filter((entry) =>
+        searchFields(entry).some((field) => field?.toLowerCase().includes(lowerQuery)),
+      )
+    },
+  }
+}
+
+/**
+ * Build reference helpers for a comparison glossary.
+ *
+ * Searches across fromCommand, toCommand, note, the aliases of both
+ * commands and, when entries provide them, the commands and
+ * explanations of multi-command mappings. With `searchCategory`, the
+ * category name matches too.
+ *
+ * @example
+ * ```ts
+ * const helpers = createGlossaryHelpers(jjGitGlossary, ["BASICS", "COMMITS"])
+ * helpers.searchEntries(jjGitGlossary, "commit")
+ * ```
+ */
+export function createGlossaryHelpers<E extends GlossaryEntry, C extends E["category"]>(
+  entries: readonly E[],
+  categoryOrder: readonly C[],
+  options: { readonly searchCategory?: boolean } = {},
+): ReferenceHelpers<E, C> {
+  return createReferenceHelpers(entries, categoryOrder, (entry) => [
+    ...(options.searchCategory ? [entry.category] : []),
+    entry.fromCommand,
+    entry.toCommand,
+    entry.note,
+    ...getEntryAliases(entry),
+    ...mappingTexts(entry.fromMapping),
+    ...mappingTexts(entry.toMapping),
+  ])
+}
+
+/**
+ * Build reference helpers for a single-tool cheat sheet.
+ *
+ * Searches across command, description, and note fields.
+ *
+ * @example
+ * ```ts
+ * const helpers = createCheatSheetHelpers(tmuxCheatSheet, ["SESSIONS", "WINDOWS"])
+ * helpers.searchEntries(tmuxCheatSheet, "session")
+ * ```
+ */
+export function createCheatSheetHelpers<E extends CheatSheetEntry, C extends E["category"]>(
+  entries: readonly E[],
+  categoryOrder: readonly C[],
+): ReferenceHelpers<E, C> {
+  return createReferenceHelpers(entries, categoryOrder, (entry) => [entry.command, entry.description, entry.note])
+}
@@ -0,0 +1,302 @@
+/**
+ * Glossary and cheat sheet data validator.
+ *
+ * Checks every reference module for duplicate or malformed ids,
+ * categories missing from the display order, empty commands or
+ * mappings, missing notes where the two sides differ, near-duplicate
+ * rows, and doc comments whose counts no longer match the data.
+ *
+ * @example
+ * ```ts
+ * import { validateReferences } from "@/content/glossary/validate"
+ *
+ * const issues = validateReferences()
+ * const errors = issues.filter((issue) => issue.severity === "error")
+ * ```
+ *
+ * @module
+ */
+
+import { existsSync, readFileSync } from "node:fs"
+import { join } from "node:path"
+import { CONTENT_ROOT } from "../content"
+import { normalizeCommand } from "./compose"
+import { type Reference, getReferences } from "./index"
+import type { CommandMapping } from "./types"
+
+/**
+ * Kinds of glossary data problems.
+ */
+export type GlossaryIssueKind =
+  | "duplicate-id"
+  | "id-format"
+  | "id-sequence"
+  | "unordered-category"
+  | "empty-field"
+  | "missing-note"
+  | "near-duplicate"
+  | "doc-count"
+
+/**
+ * A single glossary data problem.
+ *
+ * Errors break the data contract; warnings flag content worth reviewing.
+ */
+export interface GlossaryIssue {
+  /** Kind of problem */
+  readonly kind: GlossaryIssueKind
+  /** `error` fails validation, `warning` is advisory */
+  readonly severity: "error" | "warning"
+  /** Reference slug */
+  readonly slug: string
+  /** Entry id, when the problem concerns a single entry */
+  readonly id?: string
+  /** Human-readable description */
+  readonly message: string
+}
+
+/**
+ * Id prefixes that abbreviate their category instead of spelling it out.
+ */
+export const idPrefixAliases: Readonly<Record<string, string>> = {
+  DEPENDENCIES: "deps",
+  NAVIGATION: "nav",
+  COPY_MODE: "copy",
+}
+
+/**
+ * Expected id prefix for a category (`<category>-<n>` in kebab case, or its alias).
+ */
+export function idPrefixFor(category: string): string {
+  return idPrefixAliases[category] ?? category.toLowerCase().replace(/_/g, "-")
+}
+
+// Tool names ignored when deciding whether two commands differ.
+const toolWords = new Set(["git", "jj", "zio", "io", "effect", "tmux"])
+
+function commandWords(command: string): string {
+  const words = command
+    .toLowerCase()
+    .replace(/\([^)]*\)\s*$/, "")
+    .split(/[^a-z0-9-]+/)
+    .filter((word) => word && !toolWords.has(word))
+  return [...new Set(words)].sort().join(" ")
+}
+
+interface Row {
+  readonly id: string
+  readonly category: string
+  readonly fields: Readonly<Record<string, string | undefined>>
+  readonly left: string
+  readonly right: string
+  readonly note: string
+}
+
+function rowsOf(reference: Reference): readonly Row[] {
+  return reference.kind === "glossary"
+    ? reference.entries.map((entry) => ({
+        id: entry.id,
+        category: entry.category,
+        fields: { fromCommand: entry.fromCommand, toCommand: entry.toCommand },
+        left: entry.fromCommand,
+        right: entry.toCommand,
+        note: entry.note,
+      }))
+    : reference.entries.map((entry) => ({
+        id: entry.id,
+        category: entry.category,
+        fields: { command: entry.command, description: entry.description },
+        left: entry.command,
+        right: entry.description,
+        note: entry.note ?? "",
+      }))
+}
+
+function checkIds(reference: Reference, rows: readonly Row[]): readonly GlossaryIssue[] {
+  const issues: GlossaryIssue[] = []
+  const { slug } = reference
+  const seen = new Set<string>()
+  const nextNumber = new Map<string, number>()
+
+  for (const row of rows) {
+    if (seen.has(row.id)) {
+      issues.push({ kind: "duplicate-id", severity: "error", slug, id: row.id, message: `duplicate id "${row.id}"` })
+    }
+    seen.add(row.id)
+
+    const prefix = idPrefixFor(row.category)
+    const match = /^(.+)-(\d+)$/.exec(row.id)
+    if (!match || match[1] !== prefix) {
+      issues.push({
+        kind: "id-format",
+        severity: "error",
+        slug,
+        id: row.id,
+        message: `id "${row.id}" does not follow "${prefix}-<n>" for category ${row.category}`,
+      })
+      continue
+    }
+
+    const expected = nextNumber.get(row.category) ?? 1
+    if (Number(match[2]) !== expected) {
+      issues.push({
+        kind: "id-sequence",
+        severity: "warning",
+        slug,
+        id: row.id,
+        message: `expected "${prefix}-${expected}" in ${row.category} but found "${row.id}"`,
+      })
+    }
+    nextNumber.set(row.category, Number(match[2]) + 1)
+  }
+
+  return issues
+}
+
+function checkRows(reference: Reference, rows: readonly Row[]): readonly GlossaryIssue[] {
+  const issues: GlossaryIssue[] = []
+  const { slug } = reference
+
+  const ordered = new Set(reference.helpers.getCategories())
+  for (const category of new Set(rows.map((row) => row.category))) {
+    if (!ordered.has(category)) {
+      issues.push({
+        kind: "unordered-category",
+        severity: "error",
+        slug,
+        message: `category ${category} is used but missing from the category order`,
+      })
+    }
+  }
+
+  const byShape = new Map<string, string>()
+  for (const row of rows) {
+    for (const [field, value] of Object.entries(row.fields)) {
+      if (!value?.trim()) {
+        issues.push({ kind: "empty-field", severity: "error", slug, id: row.id, message: `${field} is empty` })
+      }
+    }
+
+    if (reference.kind === "glossary" && !row.note.trim() && commandWords(row.left) !== commandWords(row.right)) {
+      issues.push({
+        kind: "missing-note",
+        severity: "warning",
+        slug,
+        id: row.id,
+        message: `"${row.left}" and "${row.right}" differ but the note is empty`,
+      })
+    }
+
+    // Cheat sheets are keyed by command alone; glossaries by both sides. Case is
+    // kept because key bindings like `n` and `N` are distinct.
+    const shape =
+      reference.kind === "glossary"
+        ? `${normalizeCommand(row.left)}\u0000${normalizeCommand(row.right)}`
+        : normalizeCommand(row.left)
+    const previous = byShape.get(shape)
+    if (previous) {
+      issues.push({
+        kind: "near-duplicate",
+        severity: "warning",
+        slug,
+        id: row.id,
+        message: `"${row.id}" duplicates "${previous}" after normalization`,
+      })
+    } else {
+      byShape.set(shape, row.id)
+    }
+  }
+
+  return issues
+}
+
+function isEmptyMapping(mapping: CommandMapping): boolean {
+  if (mapping.kind === "none") {
+    return !mapping.explanation.trim()
+  }
+  const commands = mapping.kind === "alternatives" ? mapping.commands : mapping.steps
+  return commands.every((command) => !command.trim())
+}
+
+function checkMappings(reference: Reference): readonly GlossaryIssue[] {
+  if (reference.kind !== "glossary") {
+    return []
+  }
+
+  const issues: GlossaryIssue[] = []
+  const { slug } = reference
+  for (const entry of reference.entries) {
+    for (const [field, mapping] of Object.entries({ fromMapping: entry.fromMapping, toMapping: entry.toMapping })) {
+      if (mapping && isEmptyMapping(mapping)) {
+        issues.push({ kind: "empty-field", severity: "error", slug, id: entry.id, message: `${field} is empty` })
+      }
+    }
+    if (entry.fromMapping?.kind === "none" && entry.toMapping?.kind === "none") {
+      const message = "neither side has an equivalent"
+      issues.push({ kind: "empty-field", severity: "error", slug, id: entry.id, message })
+    }
+  }
+  return issues
+}
+
+function checkDocCounts(reference: Reference, rows: readonly Row[], root: string): readonly GlossaryIssue[] {
+  const file = join(root, "glossary", `${reference.slug}.ts`)
+  if (!existsSync(file)) {
+    return []
+  }
+
+  const issues: GlossaryIssue[] = []
+  const source = readFileSync(file, "utf8")
+
+  for (const match of source.matchAll(/\b(\d+) (?:command|API) mappings\b/g)) {
+    if (Number(match[1]) !== rows.length) {
+      issues.push({
+        kind: "doc-count",
+        severity: "error",
+        slug: reference.slug,
+        message: `doc comment claims "${match[0]}" but the data has ${rows.length} entries`,
+      })
+    }
+  }
+
+  for (const match of source.matchAll(/\/\/ Returns (\d+) entries from (\w+) category/g)) {
+    const actual = rows.filter((row) => row.category === match[2]).length
+    if (Number(match[1]) !== actual) {
+      issues.push({
+        kind: "doc-count",
+        severity: "error",
+        slug: reference.slug,
+        message: `doc example claims ${match[1]} ${match[2]} entries but the data has ${actual}`,
+      })
+    }
+  }
+
+  return issues
+}
+
+/**
+ * Validate a single glossary or cheat sheet.
+ *
+ * @param reference - The reference to validate.
+ * @param root - Content root used to locate the module source for doc checks.
+ * @returns Problems found (empty when valid).
+ */
+export function validateReference(reference: Reference, root: string = CONTENT_ROOT): readonly GlossaryIssue[] {
+  const rows = rowsOf(reference)
+  return [
+    ...checkIds(reference, rows),
+    ...checkRows(reference, rows),
+    ...checkMappings(reference),
+    ...checkDocCounts(reference, rows, root),
+  ]
+}
+
+/**
+ * Validate every glossary and cheat sheet module.
+ *
+ * @param root - Content root used to locate module sources for doc checks.
+ * @returns Problems found across all modules.
+ */
+export function validateReferences(root: string = CONTENT_ROOT): readonly GlossaryIssue[] {
+  return getReferences().flatMap((reference) => validateReference(reference, root))
+}
@@ -0,0 +1,374 @@
+/**
+ * Executable verification of shell glossary commands.
+ *
+ * Runs both sides of every glossary entry (e.g., `git stash` and its jj
+ * equivalent) in an isolated temporary repository prepared with the
+ * pairing's `validation.prelude.setup`, substituting placeholders such
+ * as `<url>`, `<rev>` and `<bookmark>` with fixtures. Reports entries
+ * whose commands fail or whose flags and subcommands no longer exist.
+ *
+ * Requires the tools themselves (git and jj for jj-git) on `PATH`;
+ * when one is missing, entries are reported as `unavailable`.
+ *
+ * @example
+ * ```ts
+ * import { verifyGlossaryCommands } from "@/content/glossary/verify"
+ *
+ * const results = verifyGlossaryCommands("jj-git")
+ * results.filter((result) => !result.ok)
+ * ```
+ *
+ * @module
+ */
+
+import { spawnSync } from "node:child_process"
+import { mkdirSync, mkdtempSync, rmSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { loadPairingConfig } from "../config"
+import type { ContentOptions } from "../content"
+import type { ToolId } from "../tools"
+import { getReference } from "./index"
+import { type MappingSide, hasEquivalent } from "./mapping"
+import type { GlossaryEntry } from "./types"
+
+/**
+ * Outcome of running one side of an entry.
+ *
+ * - `passed`: every command exited with status 0
+ * - `failed`: a command exited with a non-zero status
+ * - `unsupported`: the tool rejected a flag or subcommand
+ * - `skipped`: nothing runnable (a description, an interactive command, or an unknown placeholder)
+ * - `unavailable`: a tool the workspace needs is not installed
+ * - `setup-failed`: the workspace could not be prepared
+ */
+export type VerificationStatus = "passed" | "failed" | "unsupported" | "skipped" | "unavailable" | "setup-failed"
+
+/**
+ * Result of running one side of an entry.
+ */
+export interface SideVerification {
+  /** Tool the side belongs to */
+  readonly tool: ToolId
+  /** Command as written in the glossary */
+  readonly original: string
+  /** Commands actually run, after placeholder substitution */
+  readonly commands: readonly string[]
+  /** Outcome */
+  readonly status: VerificationStatus
+  /** Why the side was skipped or failed */
+  readonly reason?: string
+  /** Exit code of the failing command */
+  readonly exitCode?: number | null
+  /** Captured stderr of the failing command */
+  readonly stderr?: string
+}
+
+/**
+ * Verification result for a glossary entry.
+ */
+export interface EntryVerification {
+  /** The glossary entry */
+  readonly entry: GlossaryEntry
+  /** Results for the `fromCommand` and `toCommand` sides */
+  readonly sides: readonly [SideVerification, SideVerification]
+  /** `true` unless a side failed, was unsupported, or could not be set up */
+  readonly ok: boolean
+}
+
+/**
+ * Fixtures used to prepare workspaces and fill placeholders.
+ */
+export interface GlossaryFixtures {
+  /**
+   * Shell commands run after the pairing prelude. `$REMOTE` points to an
+   * empty bare git repository next to the workspace.
+   */
+  readonly setup: readonly string[]
+  /** Extra setup per tool, run after `setup` (e.g., checking out a branch for git) */
+  readonly toolSetup: { readonly [id in ToolId]?: readonly string[] }
+  /** Extra setup per entry id and tool (e.g., creating a conflict) */
+  readonly entrySetup: Readonly<Record<string, { readonly [id in ToolId]?: readonly string[] }>>
+  /** Placeholder values shared by every tool (e.g., `url`, `name`) */
+  readonly placeholders: Readonly<Record<string, string>>
+  /** Placeholder values specific to one tool (e.g., revisions) */
+  readonly toolPlaceholders: { readonly [id in ToolId]?: Readonly<Record<string, string>> }
+  /** Placeholder overrides per entry id (e.g., a fresh name for create commands) */
+  readonly entryPlaceholders: Readonly<Record<string, Readonly<Record<string, string>>>>
+  /** Commands that need a terminal or editor and cannot be verified */
+  readonly interactive: readonly RegExp[]
+}
+
+/**
+ * Default fixtures for the jj-git glossary.
+ *
+ * The workspace has commits `first` (bookmarks `main` and `merged`),
+ * `second` and `third` (bookmark `feature`) in a line, a `side` commit
+ * branching off `main`, and an untracked `draft.txt`. `main` and
+ * `feature` are pushed to and tracked from `origin`; on the git side
+ * `feature` is checked out.
+ */
+export const jjGitFixtures: GlossaryFixtures = {
+  setup: [
+    "echo a > a.txt && jj describe -m first && jj bookmark create main merged -r @",
+    "jj new -m second && echo b > b.txt",
+    "jj new -m third && echo c > c.txt && jj bookmark create feature -r @",
+    "jj new main -m side && echo s > s.txt && jj bookmark create side -r @",
+    "jj new feature",
+    'git remote add origin "$REMOTE"',
+    "git push --quiet origin main feature",
+    "jj git fetch && jj bookmark track main@origin feature@origin",
+    "echo draft > draft.txt",
+  ],
+  toolSetup: {
+    git: ["git checkout --quiet feature", "git branch --quiet --set-upstream-to=origin/feature"],
+  },
+  entrySetup: {
+    "conflicts-3": { jj: ["jj new main && echo conflict > c.txt && jj rebase -r @ -d feature"] },
+  },
+  placeholders: {
+    url: "$REMOTE",
+    name: "feature",
+    bookmark: "main",
+    branch: "main",
+    old: "feature",
+    new: "renamed",
+    onto: "side",
+    resolved: "a.txt",
+    file: "a.txt",
+  },
+  toolPlaceholders: {
+    git: { commit: "HEAD~1", rev: "HEAD~1" },
+    jj: { commit: "@-", rev: "@-", parent: "@-", source: "side", operation: "@-" },
+  },
+  entryPlaceholders: {
+    "branches-1": { name: "created" },
+    "branches-2": { name: "created" },
+    "branches-3": { name: "merged" },
+    "branches-6": { name: "created" },
+    "history-4": { commit: "side" },
+  },
+  interactive: [/\s-i\b/, /^jj split\b/, /^jj resolve$/, /^jj diffedit\b/],
+}
+
+/**
+ * Default fixtures per glossary slug.
+ *
+ * Only shell glossaries can be verified; other slugs need explicit
+ * `fixtures`.
+ */
+export const glossaryFixtures: Readonly<Record<string, GlossaryFixtures>> = {
+  "jj-git": jjGitFixtures,
+}
+
+/**
+ * Options for {@link verifyGlossaryCommands}.
+ */
+export interface VerifyOptions extends ContentOptions {
+  /** Fixtures (defaults to the slug's {@link glossaryFixtures}) */
+  readonly fixtures?: GlossaryFixtures
+  /** Per-command timeout in milliseconds (default: the sandbox timeout from config.yml) */
+  readonly timeoutMs?: number
+  /** Only verify these entry ids */
+  readonly ids?: readonly string[]
+}
+
+const unsupportedPattern =
+  /unexpected argument|unrecognized (?:subcommand|option|argument)|unknown (?:option|switch|subcommand)|invalid option|is not a git command/i
+
+/**
+ * Split a glossary command into runnable commands.
+ *
+ * Trailing annotations like `(edit)` are dropped; annotations that start
+ * with the tool name, like `(jj st)`, are aliases and run as well. A
+ * command that is only a description, like `(start new work)`, yields
+ * nothing.
+ *
+ * @param command - The command as written in the glossary.
+ * @param tool - The tool the command belongs to.
+ * @returns Commands to run.
+ */
+export function runnableCommands(command: string, tool: ToolId): readonly string[] {
+  const trimmed = command.trim()
+  if (trimmed.startsWith("(")) {
+    return []
+  }
+
+  const match = /^(.*?)\s*\(([^()]*)\)$/.exec(trimmed)
+  if (!match) {
+    return [trimmed]
+  }
+
+  const [, main = "", annotation = ""] = match
+  return new RegExp(`^${tool}\\b`).test(annotation) ? [main, annotation] : [main]
+}
+
+/**
+ * Replace `<placeholder>` tokens for one entry and tool.
+ *
+ * @returns The substituted command, or the name of the first unknown placeholder.
+ */
+export function fillPlaceholders(
+  command: string,
+  tool: ToolId,
+  entryId: string,
+  fixtures: GlossaryFixtures,
+): { readonly command: string } | { readonly unknown: string } {
+  const values = {
+    ...fixtures.placeholders,
+    ...fixtures.toolPlaceholders[tool],
+    ...fixtures.entryPlaceholders[entryId],
+  }
+
+  let unknown: string | null = null
+  const filled = command.replace(/<([\w-]+)>/g, (token, name: string) => {
+    const value = values[name]
+    if (value === undefined) {
+      unknown ??= name
+      return token
+    }
+    return value
+  })
+
+  return unknown === null ? { command: filled } : { unknown }
+}
+
+function isInstalled(tool: ToolId): boolean {
+  return spawnSync(tool, ["--version"], { stdio: "ignore" }).status === 0
+}
+
+function runScript(script: string, cwd: string, env: NodeJS.ProcessEnv, timeoutMs: number) {
+  return spawnSync("bash", ["-c", script], { cwd, env, timeout: timeoutMs, encoding: "utf8" })
+}
+
+function verifySide(
+  entry: GlossaryEntry,
+  side: MappingSide,
+  tool: ToolId,
+  prelude: readonly string[],
+  fixtures: GlossaryFixtures,
+  timeoutMs: number,
+  missing: readonly ToolId[],
+): SideVerification {
+  const original = entry[side]
+  const base = { tool, original }
+  if (!hasEquivalent(entry, side)) {
+    return { ...base, commands: [], status: "skipped", reason: "no equivalent" }
+  }
+  const raw = runnableCommands(original, tool)
+  if (raw.length === 0) {
+    return { ...base, commands: [], status: "skipped", reason: "description, not a command" }
+  }
+  if (raw.some((command) => fixtures.interactive.some((pattern) => pattern.test(command)))) {
+    return { ...base, commands: raw, status: "skipped", reason: "interactive command" }
+  }
+
+  const commands: string[] = []
+  for (const command of raw) {
+    const filled = fillPlaceholders(command, tool, entry.id, fixtures)
+    if ("unknown" in filled) {
+      return { ...base, commands: raw, status: "skipped", reason: `no fixture for <${filled.unknown}>` }
+    }
+    commands.push(filled.command)
+  }
+
+  if (missing.length > 0) {
+    return { ...base, commands, status: "unavailable", reason: `${missing.join(", ")} not installed` }
+  }
+
+  const root = mkdtempSync(join(tmpdir(), "toolkata-glossary-"))
+  try {
+    const repo = join(root, "repo")
+    const remote = join(root, "remote.git")
+    const home = join(root, "home")
+    mkdirSync(repo)
+    mkdirSync(home)
+
+    const env: NodeJS.ProcessEnv = {
+      ...process.env,
+      HOME: home,
+      REMOTE: remote,
+      EDITOR: "true",
+      GIT_EDITOR: "true",
+      GIT_SEQUENCE_EDITOR: "true",
+      GIT_CONFIG_NOSYSTEM: "1",
+      JJ_USER: "Test User",
+      JJ_EMAIL: "test@toolkata.com",
+    }
+
+    const setup = runScript(
+      [
+        "set -e",
+        'git init --quiet --bare "$REMOTE"',
+        ...prelude,
+        ...fixtures.setup,
+        ...(fixtures.toolSetup[tool] ?? []),
+        ...(fixtures.entrySetup[entry.id]?.[tool] ?? []),
+      ].join("\n"),
+      repo,
+      env,
+      timeoutMs,
+    )
+    if (setup.status !== 0) {
+      return { ...base, commands, status: "setup-failed", exitCode: setup.status, stderr: setup.stderr ?? "" }
+    }
+
+    // Each side gets its own workspace, so commands never see each other's effects.
+    for (const command of commands) {
+      const result = runScript(command, repo, env, timeoutMs)
+      if (result.status !== 0) {
+        const stderr = result.stderr ?? ""
+        return {
+          ...base,
+          commands,
+          status: unsupportedPattern.test(stderr) ? "unsupported" : "failed",
+          reason: result.error ? result.error.message : `"${command}" exited with ${result.status}`,
+          exitCode: result.status,
+          stderr,
+        }
+      }
+    }
+
+    return { ...base, commands, status: "passed" }
+  } finally {
+    rmSync(root, { recursive: true, force: true })
+  }
+}
+
+/**
+ * Run both sides of every entry of a shell glossary.
+ *
+ * @param slug - The glossary slug (defaults to "jj-git").
+ * @param options - Fixtures, timeout, entry filter and content root.
+ * @returns One result per entry, in glossary order.
+ * @throws {Error} If the slug is not a comparison glossary or has no fixtures.
+ */
+export function verifyGlossaryCommands(slug = "jj-git", options: VerifyOptions = {}): readonly EntryVerification[] {
+  const reference = getReference(slug)
+  if (reference?.kind !== "glossary") {
+    throw new Error(`"${slug}" is not a comparison glossary`)
+  }
+
+  const config = loadPairingConfig(slug, options)
+  const prelude = config.validation?.prelude.setup ?? []
+  const fixtures = options.fixtures ?? glossaryFixtures[slug]
+  if (!fixtures) {
+    throw new Error(`No fixtures for glossary "${slug}"; pass them with the \`fixtures\` option`)
+  }
+  const timeoutMs = options.timeoutMs ?? config.defaults.sandbox.timeout * 1000
+  const tools = [reference.columns.fromCommand, reference.columns.toCommand] as const
+  // The prelude sets up both tools (e.g., a colocated jj repository), so every side needs all of them.
+  const missing = tools.filter((tool) => !isInstalled(tool))
+
+  return reference.entries
+    .filter((entry) => !options.ids || options.ids.includes(entry.id))
+    .map((entry) => {
+      const first = verifySide(entry, "fromCommand", tools[0], prelude, fixtures, timeoutMs, missing)
+      const second = verifySide(entry, "toCommand", tools[1], prelude, fixtures, timeoutMs, missing)
+
+      const ok = [first, second].every(
+        (side) => side.status !== "failed" && side.status !== "unsupported" && side.status !== "setup-failed",
+      )
+      return { entry, sides: [first, second], ok }
+    })
+}
@@ -1,5 +1,5 @@
 /**
- * Glossary data module for Cats Effect ← ZIO API reference.
+ * Glossary data module for ZIO ← Cats Effect API reference.
  *
  * Shared data source for the glossary page.
  * Provides search, filtering, and category grouping capabilities.
@@ -7,7 +7,8 @@
  * @module
  */
 
-import type { GlossaryEntry as SharedGlossaryEntry } from "./types"
+import type { ContentVerification } from "../tools"
+import { type GlossaryEntry as SharedGlossaryEntry, createGlossaryHelpers } from "./types"
 
 /**
  * Glossary category types for API groupings.
@@ -37,7 +38,14 @@ export interface GlossaryEntry extends SharedGlossaryEntry {
 }
 
 /**
- * Complete glossary data for Cats Effect ← ZIO comparison.
+ * Tool versions the ZIO ← Cats Effect glossary targets.
+ */
+export const verification: ContentVerification = {
+  toolVersions: { "cats-effect": "3", zio: "2" },
+}
+
+/**
+ * Complete glossary data for ZIO ← Cats Effect comparison.
  *
  * API mappings organized by functional category with notes
  * for important differences.
@@ -47,130 +55,130 @@ export const zioCatsGlossary: readonly GlossaryEntry[] = [
   {
     id: "basics-1",
     category: "BASICS",
-    fromCommand: "ZIO.succeed(a)",
-    toCommand: "IO.pure(a)",
+    fromCommand: "IO.pure(a)",
+    toCommand: "ZIO.succeed(a)",
     note: "Lift pure value into effect",
   },
   {
     id: "basics-2",
     category: "BASICS",
-    fromCommand: "ZIO.fail(e)",
-    toCommand: "IO.raiseError(e)",
+    fromCommand: "IO.raiseError(e)",
+    toCommand: "ZIO.fail(e)",
     note: "Lift error into effect",
   },
   {
     id: "basics-3",
     category: "BASICS",
-    fromCommand: "ZIO.effect(thunk)",
-    toCommand: "IO.delay(thunk)",
+    fromCommand: "IO.delay(thunk)",
+    toCommand: "ZIO.effect(thunk)",
     note: "Suspend side effect",
   },
   {
     id: "basics-4",
     category: "BASICS",
-    fromCommand: "ZIO.attempt(thunk)",
-    toCommand: "IO.blocking(thunk)",
+    fromCommand: "IO.blocking(thunk)",
+    toCommand: "ZIO.attempt(thunk)",
     note: "May throw, blocking",
   },
   {
     id: "basics-5",
     category: "BASICS",
-    fromCommand: "UIO[A]",
-    toCommand: "IO[A]",
+    fromCommand: "IO[A]",
+    toCommand: "UIO[A]",
     note: "No error type (Nothing)",
   },
   {
     id: "basics-6",
     category: "BASICS",
-    fromCommand: "ZIO.fromEither(e)",
-    toCommand: "IO.fromEither(e)",
+    fromCommand: "IO.fromEither(e)",
+    toCommand: "ZIO.fromEither(e)",
     note: "From Either",
   },
   {
     id: "basics-7",
     category: "BASICS",
-    fromCommand: "ZIO.fromOption(o)",
-    toCommand: "IO.fromOption(o)",
+    fromCommand: "IO.fromOption(o)",
+    toCommand: "ZIO.fromOption(o)",
     note: "From Option",
   },
   // ERRORS
   {
     id: "errors-1",
     category: "ERRORS",
-    fromCommand: "effect.catchAll(f)",
-    toCommand: "effect.handleErrorWith(f)",
+    fromCommand: "effect.handleErrorWith(f)",
+    toCommand: "effect.catchAll(f)",
     note: "Recover from error",
   },
   {
     id: "errors-2",
     category: "ERRORS",
-    fromCommand: "effect.orElse(fallback)",
-    toCommand: "effect.handleErrorWith(_ => fallback)",
+    fromCommand: "effect.handleErrorWith(_ => fallback)",
+    toCommand: "effect.orElse(fallback)",
     note: "Fallback on error",
   },
   {
     id: "errors-3",
     category: "ERRORS",
-    fromCommand: "effect.mapError(f)",
-    toCommand: "effect.adaptError(f)",
+    fromCommand: "effect.adaptError(f)",
+    toCommand: "effect.mapError(f)",
     note: "Transform error",
   },
   {
     id: "errors-4",
     category: "ERRORS",
-    fromCommand: "effect.retry(schedule)",
-    toCommand: "effect.timeout + handleError",
+    fromCommand: "effect.timeout + handleError",
+    toCommand: "effect.retry(schedule)",
     note: "Manual retries in CE",
   },
   {
     id: "errors-5",
     category: "ERRORS",
-    fromCommand: "ZIO.collectAll(list)",
-    toCommand: "list.sequence",
+    fromCommand: "list.sequence",
+    toCommand: "ZIO.collectAll(list)",
     note: "Sequence effects",
   },
   // DEPENDENCIES
   {
     id: "deps-1",
     category: "DEPENDENCIES",
-    fromCommand: "ZLayer.succeed(service)",
-    toCommand: "Resource.pure(service)",
+    fromCommand: "Resource.pure(service)",
+    toCommand: "ZLayer.succeed(service)",
     note: "Create dependency",
   },
   {
     id: "deps-2",
     category: "DEPENDENCIES",
-    fromCommand: "effect.provideLayer(layer)",
-    toCommand: "Kleisli.run(effect)(service)",
+    fromCommand: "Kleisli.run(effect)(service)",
+    toCommand: "effect.provideLayer(layer)",
     note: "Inject dependency",
   },
   {
     id: "deps-3",
     category: "DEPENDENCIES",
-    fromCommand: "ZIO.service[A]",
-    toCommand: "IO.ask[A]",
+    fromCommand: "IO.ask[A]",
+    toCommand: "ZIO.service[A]",
     note: "Get from env (Kleisli)",
   },
   {
     id: "deps-4",
     category: "DEPENDENCIES",
-    fromCommand: "layer1 ++ layer2",
-    toCommand: "Resource.forProductN",
+    fromCommand: "Resource.forProductN",
+    toCommand: "layer1 ++ layer2",
     note: "Compose dependencies",
   },
   {
     id: "deps-5",
     category: "DEPENDENCIES",
-    fromCommand: "ZManaged.acquireRelease",
-    toCommand: "Resource.make",
+    fromCommand: "Resource.make",
+    toCommand: "ZManaged.acquireRelease",
     note: "Resource lifecycle",
   },
   // CONCURRENCY
   {
     id: "concurrency-1",
     category: "CONCURRENCY",
-    fromCommand: "effect.fork",
-    toCommand: "effect.start",
+    fromCommand: "effect.start",
+    toCommand: "effect.fork",
     note: "Spawn fiber",
   },
   {
@@ -197,30 +205,30 @@ export const zioCatsGlossary: readonly GlossaryEntry[] = [
   {
     id: "concurrency-5",
     category: "CONCURRENCY",
-    fromCommand: "fiber.interrupt",
-    toCommand: "fiber.cancel",
+    fromCommand: "fiber.cancel",
+    toCommand: "fiber.interrupt",
     note: "Cancel fiber",
   },
   {
     id: "concurrency-6",
     category: "CONCURRENCY",
-    fromCommand: "ZIO.supervised",
-    toCommand: "Resource with cancel",
+    fromCommand: "Resource with cancel",
+    toCommand: "ZIO.supervised",
     note: "Manual supervision",
   },
   {
     id: "concurrency-7",
     category: "CONCURRENCY",
-    fromCommand: "ZIO.collectAllPar(list)",
-    toCommand: "list.parSequence",
+    fromCommand: "list.parSequence",
+    toCommand: "ZIO.collectAllPar(list)",
     note: "Parallel execution",
   },
   // STREAMING
   {
     id: "streaming-1",
     category: "STREAMING",
-    fromCommand: "ZStream(values)",
-    toCommand: "Stream(values)",
+    fromCommand: "Stream(values)",
+    toCommand: "ZStream(values)",
     note: "Create stream",
   },
   {
@@ -240,15 +248,15 @@ export const zioCatsGlossary: readonly GlossaryEntry[] = [
   {
     id: "streaming-4",
     category: "STREAMING",
-    fromCommand: "stream.runCollect",
-    toCommand: "stream.compile.toList",
+    fromCommand: "stream.compile.toList",
+    toCommand: "stream.runCollect",
     note: "Collect to list",
   },
   {
     id: "streaming-5",
     category: "STREAMING",
-    fromCommand: "stream.mapZIO(f)",
-    toCommand: "stream.evalMap(f)",
+    fromCommand: "stream.evalMap(f)",
+    toCommand: "stream.mapZIO(f)",
     note: "Effectful map",
   },
   {
@@ -261,23 +269,23 @@ export const zioCatsGlossary: readonly GlossaryEntry[] = [
   {
     id: "streaming-7",
     category: "STREAMING",
-    fromCommand: "ZStream.fromPath(path)",
-    toCommand: "Files[IO].readAll(path)",
+    fromCommand: "Files[IO].readAll(path)",
+    toCommand: "ZStream.fromPath(path)",
     note: "File streaming (fs2)",
   },
   // STM
   {
     id: "stm-1",
     category: "STM",
-    fromCommand: "TRef.make(a)",
-    toCommand: "TRef.of[F](a)",
+    fromCommand: "TRef.of[F](a)",
+    toCommand: "TRef.make(a)",
     note: "Create transactional reference",
   },
   {
     id: "stm-2",
     category: "STM",
-    fromCommand: "STM.succeed(a)",
-    toCommand: "STM.pure(a)",
+    fromCommand: "STM.pure(a)",
+    toCommand: "STM.succeed(a)",
     note: "Pure STM value",
   },
   {
@@ -290,216 +298,216 @@ export const zioCatsGlossary: readonly GlossaryEntry[] = [
   {
     id: "stm-4",
     category: "STM",
-    fromCommand: "transaction.commit",
-    toCommand: "transaction.commit[F]",
+    fromCommand: "transaction.commit[F]",
+    toCommand: "transaction.commit",
     note: "Commit STM to effect",
   },
   {
     id: "stm-5",
     category: "STM",
-    fromCommand: "TMap.empty[K, V]",
-    toCommand: "TMap.empty[F, K, V]",
+    fromCommand: "TMap.empty[F, K, V]",
+    toCommand: "TMap.empty[K, V]",
     note: "Transactional hash map",
   },
   {
     id: "stm-6",
     category: "STM",
-    fromCommand: "TQueue.unbounded[A]",
-    toCommand: "TQueue.unbounded[F, A]",
+    fromCommand: "TQueue.unbounded[F, A]",
+    toCommand: "TQueue.unbounded[A]",
     note: "Transactional queue",
   },
   // CONFIG
   {
     id: "config-1",
     category: "CONFIG",
-    fromCommand: "ZIO.config[A]",
-    toCommand: "ConfigValue[F, A].load[F]",
+    fromCommand: "ConfigValue[F, A].load[F]",
+    toCommand: "ZIO.config[A]",
     note: "Load configuration",
   },
   {
     id: "config-2",
     category: "CONFIG",
-    fromCommand: "Config.string",
-    toCommand: "env(key).as[String]",
+    fromCommand: "env(key).as[String]",
+    toCommand: "Config.string",
     note: "String configuration",
   },
   {
     id: "config-3",
     category: "CONFIG",
-    fromCommand: "Config.int",
-    toCommand: "env(key).as[Int]",
+    fromCommand: "env(key).as[Int]",
+    toCommand: "Config.int",
     note: "Integer configuration",
   },
   {
     id: "config-4",
     category: "CONFIG",
-    fromCommand: "ConfigProvider.envProvider",
-    toCommand: "env(key) default",
+    fromCommand: "env(key) default",
+    toCommand: "ConfigProvider.envProvider",
     note: "Environment variable source",
   },
   {
     id: "config-5",
     category: "CONFIG",
-    fromCommand: "deriveConfig[A]",
-    toCommand: "parMapN(A)",
+    fromCommand: "parMapN(A)",
+    toCommand: "deriveConfig[A]",
     note: "Automatic config derivation",
   },
   {
     id: "config-6",
     category: "CONFIG",
-    fromCommand: "cfg.withDefault(value)",
-    toCommand: "ConfigValue.default(value)",
+    fromCommand: "ConfigValue.default(value)",
+    toCommand: "cfg.withDefault(value)",
     note: "Default value for config",
   },
   {
     id: "config-7",
     category: "CONFIG",
-    fromCommand: "cfg.validate(msg)(p)",
-    toCommand: "Custom ConfigDecoder",
+    fromCommand: "Custom ConfigDecoder",
+    toCommand: "cfg.validate(msg)(p)",
     note: "Configuration validation",
   },
   // HTTP
   {
     id: "http-1",
     category: "HTTP",
-    fromCommand: "Http.collect[Request] { case ... }",
-    toCommand: "HttpRoutes.of[IO] { case ... }",
+    fromCommand: "HttpRoutes.of[IO] { case ... }",
+    toCommand: "Http.collect[Request] { case ... }",
     note: "Define HTTP routes",
   },
   {
     id: "http-2",
     category: "HTTP",
-    fromCommand: "Response.text(body)",
-    toCommand: "Ok(body)",
+    fromCommand: "Ok(body)",
+    toCommand: "Response.text(body)",
     note: "Text response",
   },
   {
     id: "http-3",
     category: "HTTP",
-    fromCommand: "Client.request(url)",
-    toCommand: "client.expect[String](uri)",
+    fromCommand: "client.expect[String](uri)",
+    toCommand: "Client.request(url)",
     note: "HTTP GET request",
   },
   {
     id: "http-4",
     category: "HTTP",
-    fromCommand: "Server.serve(app)",
-    toCommand: "BlazeServerBuilder[IO].serve",
+    fromCommand: "BlazeServerBuilder[IO].serve",
+    toCommand: "Server.serve(app)",
     note: "Start HTTP server",
   },
   {
     id: "http-5",
     category: "HTTP",
-    fromCommand: 'Method.GET -> Root / "path"',
-    toCommand: 'GET -> Root / "path"',
+    fromCommand: 'GET -> Root / "path"',
+    toCommand: 'Method.GET -> Root / "path"',
     note: "GET route pattern",
   },
   {
     id: "http-6",
     category: "HTTP",
-    fromCommand: "req.body.asJson[A]",
-    toCommand: "req.as[A]",
+    fromCommand: "req.as[A]",
+    toCommand: "req.body.asJson[A]",
     note: "Parse JSON body",
   },
   {
     id: "http-7",
     category: "HTTP",
-    fromCommand: "Response(status, body = Body.fromStream)",
-    toCommand: "Ok(stream)",
+    fromCommand: "Ok(stream)",
+    toCommand: "Response(status, body = Body.fromStream)",
     note: "Streaming response",
   },
   // DATABASE
   {
     id: "database-1",
     category: "DATABASE",
-    fromCommand: "query(sql).as[A]",
-    toCommand: 'sql"...".query[A]',
+    fromCommand: 'sql"...".query[A]',
+    toCommand: "query(sql).as[A]",
     note: "Execute SELECT query",
   },
   {
     id: "database-2",
     category: "DATABASE",
-    fromCommand: "execute(sql).param(v)",
-    toCommand: 'sql"...$v"',
+    fromCommand: 'sql"...$v"',
+    toCommand: "execute(sql).param(v)",
     note: "Parameterized query",
   },
   {
     id: "database-3",
     category: "DATABASE",
-    fromCommand: "query(...).transaction",
-    toCommand: 'sql"...".transact(xa)',
+    fromCommand: 'sql"...".transact(xa)',
+    toCommand: "query(...).transaction",
     note: "Execute transaction",
   },
   {
     id: "database-4",
     category: "DATABASE",
-    fromCommand: "ZConnectionPool.h2(url, user, pass)",
-    toCommand: "Transactor.fromDataSource",
+    fromCommand: "Transactor.fromDataSource",
+    toCommand: "ZConnectionPool.h2(url, user, pass)",
     note: "Connection pool",
   },
   {
     id: "database-5",
     category: "DATABASE",
-    fromCommand: "execute(sql).returning",
-    toCommand: ".update.withUniqueGeneratedKeys",
+    fromCommand: ".update.withUniqueGeneratedKeys",
+    toCommand: "execute(sql).returning",
     note: "Insert and return ID",
   },
   {
     id: "database-6",
     category: "DATABASE",
-    fromCommand: "sql ++ where",
-    toCommand: "Fragment ++ Fragment",
+    fromCommand: "Fragment ++ Fragment",
+    toCommand: "sql ++ where",
     note: "Query composition",
   },
   // RUNTIME
   {
     id: "runtime-1",
     category: "RUNTIME",
-    fromCommand: "object Main extends ZIOAppDefault",
-    toCommand: "object Main extends IOApp.Simple",
+    fromCommand: "object Main extends IOApp.Simple",
+    toCommand: "object Main extends ZIOAppDefault",
     note: "Application entry",
   },
   {
     id: "runtime-2",
     category: "RUNTIME",
-    fromCommand: "override val run: ZIO[...]",
-    toCommand: "val run: IO[Throwable, Unit]",
+    fromCommand: "val run: IO[Throwable, Unit]",
+    toCommand: "override val run: ZIO[...]",
     note: "Main effect",
   },
   {
     id: "runtime-3",
     category: "RUNTIME",
-    fromCommand: "override val bootstrap",
-    toCommand: "IORuntime (implicit)",
+    fromCommand: "IORuntime (implicit)",
+    toCommand: "override val bootstrap",
     note: "Runtime config",
   },
   {
     id: "runtime-4",
     category: "RUNTIME",
-    fromCommand: "effect.onInterrupt(f)",
-    toCommand: "effect.onCancel(f)",
+    fromCommand: "effect.onCancel(f)",
+    toCommand: "effect.onInterrupt(f)",
     note: "Shutdown hook",
   },
   {
     id: "runtime-5",
     category: "RUNTIME",
-    fromCommand: "ZIO.logInfo(msg)",
-    toCommand: "logger.info(msg) (log4cats)",
+    fromCommand: "logger.info(msg) (log4cats)",
+    toCommand: "ZIO.logInfo(msg)",
     note: "Logging",
   },
   // INTEROP
   {
     id: "interop-1",
     category: "INTEROP",
-    fromCommand: "zio.toIO",
-    toCommand: "Use in CE via interop",
+    fromCommand: "Use in CE via interop",
+    toCommand: "zio.toIO",
     note: "zio-interop-cats",
   },
   {
     id: "interop-2",
     category: "INTEROP",
-    fromCommand: "zio.toResource",
-    toCommand: "Use in CE via interop",
+    fromCommand: "Use in CE via interop",
+    toCommand: "zio.toResource",
     note: "Convert ZManaged",
   },
   {
@@ -512,12 +520,31 @@ export const zioCatsGlossary: readonly GlossaryEntry[] = [
   {
     id: "interop-4",
     category: "INTEROP",
-    fromCommand: "list.traverse(ZIO)",
-    toCommand: "list.traverse(IO)",
+    fromCommand: "list.traverse(IO)",
+    toCommand: "list.traverse(ZIO)",
     note: "Cats syntax",
   },
 ] as const
 
+/**
+ * Display order of categories.
+ */
+const categoryOrder: readonly GlossaryCategory[] = [
+  "BASICS",
+  "ERRORS",
+  "DEPENDENCIES",
+  "CONCURRENCY",
+  "STREAMING",
+  "STM",
+  "CONFIG",
+  "HTTP",
+  "DATABASE",
+  "RUNTIME",
+  "INTEROP",
+]
+
+const helpers = createGlossaryHelpers(zioCatsGlossary, categoryOrder)
+
 /**
  * Get all unique categories from glossary entries.
  *
@@ -532,27 +559,7 @@ export const zioCatsGlossary: readonly GlossaryEntry[] = [
  * ```
  */
 export function getCategories(): readonly GlossaryCategory[] {
-  const categoryOrder: readonly GlossaryCategory[] = [
-    "BASICS",
-    "ERRORS",
-    "DEPENDENCIES",
-    "CONCURRENCY",
-    "STREAMING",
-    "STM",
-    "CONFIG",
-    "HTTP",
-    "DATABASE",
-    "RUNTIME",
-    "INTEROP",
-  ]
-
-  const categories = new Set<GlossaryCategory>()
-  for (const entry of zioCatsGlossary) {
-    categories.add(entry.category)
-  }
-
-  // Return in defined order
-  return categoryOrder.filter((cat) => categories.has(cat))
+  return helpers.getCategories()
 }
 
 /**
@@ -574,7 +581,7 @@ export function filterByCategory(
   entries: readonly GlossaryEntry[],
   category: GlossaryCategory,
 ): readonly GlossaryEntry[] {
-  return entries.filter((entry) => entry.category === category)
+  return helpers.filterByCategory(entries, category)
 }
 
 /**
@@ -602,16 +609,5 @@ export function searchEntries(
   entries: readonly GlossaryEntry[],
   query: string,
 ): readonly GlossaryEntry[] {
-  if (!query) {
-    return entries
-  }
-
-  const lowerQuery = query.toLowerCase()
-
-  return entries.filter(
-    (entry) =>
-      entry.fromCommand.toLowerCase().includes(lowerQuery) ||
-      entry.toCommand.toLowerCase().includes(lowerQuery) ||
-      entry.note.toLowerCase().includes(lowerQuery),
-  )
+  return helpers.searchEntries(entries, query)
 }
@@ -0,0 +1,194 @@
+/**
+ * Learning paths between tutorial entries.
+ *
+ * Builds a prerequisite graph over registry entries (e.g., Cats Effect →
+ * ZIO → Effect), validates that it is acyclic, and recommends what to
+ * take next given a set of completed entries.
+ *
+ * @example
+ * ```ts
+ * import { getLearningPaths, recommendNext } from "./learning-paths"
+ *
+ * getLearningPaths().map((path) => path.map((entry) => entry.slug))
+ * // [["zio-cats", "effect-zio"], ["jj-git"], ["tmux"]]
+ *
+ * recommendNext(["zio-cats"])[0]
+ * // { entry: { slug: "effect-zio", ... }, reason: "unlocked" }
+ * ```
+ *
+ * @module
+ */
+
+import { type TutorialEntry, getPublishedEntries, toolEntries } from "./pairings"
+
+/**
+ * Why an entry is recommended.
+ *
+ * - `unlocked`: every prerequisite has been completed
+ * - `related`: shares material with a completed entry
+ * - `start`: has no prerequisites and is a good starting point
+ */
+export type RecommendationReason = "unlocked" | "related" | "start"
+
+/**
+ * A recommended next entry.
+ */
+export interface Recommendation {
+  /** The recommended entry */
+  readonly entry: TutorialEntry
+  /** Why it is recommended */
+  readonly reason: RecommendationReason
+}
+
+/**
+ * An ordered chain of entries, from one without prerequisites to one nothing builds on.
+ */
+export type LearningPath = readonly TutorialEntry[]
+
+const allSlugs = new Set<string>(toolEntries.map((entry) => entry.slug))
+
+function linksOf(entry: TutorialEntry, key: "prerequisites" | "related"): readonly string[] {
+  const links = entry[key] ?? []
+  for (const slug of links) {
+    if (!allSlugs.has(slug)) {
+      throw new Error(`Entry "${entry.slug}" lists unknown ${key} slug "${slug}"`)
+    }
+  }
+  return links
+}
+
+/**
+ * Find cycles in the prerequisite graph.
+ *
+ * @param entries - Entries to inspect (defaults to the full registry).
+ * @returns Each cycle as a list of slugs, first slug repeated at the end (empty when acyclic).
+ */
+export function findPrerequisiteCycles(
+  entries: readonly TutorialEntry[] = toolEntries,
+): readonly (readonly string[])[] {
+  const bySlug = new Map(entries.map((entry) => [entry.slug, entry]))
+  const state = new Map<string, "visiting" | "done">()
+  const stack: string[] = []
+  const cycles: string[][] = []
+
+  const visit = (slug: string): void => {
+    const current = state.get(slug)
+    if (current === "done") return
+    if (current === "visiting") {
+      cycles.push([...stack.slice(stack.indexOf(slug)), slug])
+      return
+    }
+
+    const entry = bySlug.get(slug)
+    if (!entry) return
+
+    state.set(slug, "visiting")
+    stack.push(slug)
+    for (const prerequisite of linksOf(entry, "prerequisites")) {
+      visit(prerequisite)
+    }
+    stack.pop()
+    state.set(slug, "done")
+  }
+
+  for (const entry of entries) {
+    visit(entry.slug)
+  }
+
+  return cycles
+}
+
+/**
+ * Get every learning path through the given entries.
+ *
+ * Prerequisites that are not among `entries` (e.g., unpublished ones)
+ * are ignored.
+ *
+ * @param entries - Entries to build paths over (defaults to published entries).
+ * @returns Paths in registry order of their first entry.
+ * @throws {Error} If the prerequisite graph has a cycle or references an unknown slug.
+ */
+export function getLearningPaths(entries: readonly TutorialEntry[] = getPublishedEntries()): readonly LearningPath[] {
+  const [cycle] = findPrerequisiteCycles(entries)
+  if (cycle) {
+    throw new Error(`Prerequisite cycle: ${cycle.join(" → ")}`)
+  }
+
+  const included = new Set(entries.map((entry) => entry.slug))
+  const prerequisitesOf = (entry: TutorialEntry): readonly string[] =>
+    linksOf(entry, "prerequisites").filter((slug) => included.has(slug))
+
+  const followUps = new Map<string, TutorialEntry[]>()
+  for (const entry of entries) {
+    for (const prerequisite of prerequisitesOf(entry)) {
+      const list = followUps.get(prerequisite) ?? []
+      list.push(entry)
+      followUps.set(prerequisite, list)
+    }
+  }
+
+  const paths: LearningPath[] = []
+  const walk = (entry: TutorialEntry, path: readonly TutorialEntry[]): void => {
+    const next = followUps.get(entry.slug) ?? []
+    if (next.length === 0) {
+      paths.push([...path, entry])
+      return
+    }
+    for (const followUp of next) {
+      walk(followUp, [...path, entry])
+    }
+  }
+
+  for (const entry of entries) {
+    if (prerequisitesOf(entry).length === 0) {
+      walk(entry, [])
+    }
+  }
+
+  return paths
+}
+
+/**
+ * Recommend entries to take next.
+ *
+ * Entries whose prerequisites were just completed come first, then
+ * entries related to completed ones, then starting points. Completed
+ * entries and entries with unmet prerequisites are never recommended.
+ *
+ * @param completedSlugs - Slugs of entries the learner has finished.
+ * @param entries - Candidate entries (defaults to published entries).
+ * @returns Recommendations in priority order, then registry order.
+ */
+export function recommendNext(
+  completedSlugs: readonly string[],
+  entries: readonly TutorialEntry[] = getPublishedEntries(),
+): readonly Recommendation[] {
+  const completed = new Set(completedSlugs)
+  const included = new Set(entries.map((entry) => entry.slug))
+
+  // `related` is symmetric: an entry is related to anything that lists it.
+  const relatedToCompleted = new Set<string>()
+  for (const entry of toolEntries) {
+    for (const slug of linksOf(entry, "related")) {
+      if (completed.has(entry.slug)) relatedToCompleted.add(slug)
+      if (completed.has(slug)) relatedToCompleted.add(entry.slug)
+    }
+  }
+
+  const priority: Record<RecommendationReason, number> = { unlocked: 0, related: 1, start: 2 }
+  const recommendations: Recommendation[] = []
+
+  for (const entry of entries) {
+    if (completed.has(entry.slug)) continue
+
+    const prerequisites = linksOf(entry, "prerequisites").filter((slug) => included.has(slug))
+    if (!prerequisites.every((slug) => completed.has(slug))) continue
+
+    const reason: RecommendationReason =
+      prerequisites.length > 0 ? "unlocked" : relatedToCompleted.has(entry.slug) ? "related" : "start"
+    recommendations.push({ entry, reason })
+  }
+
+  // Array.prototype.sort is stable, so registry order is kept within a reason.
+  return recommendations.sort((a, b) => priority[a.reason] - priority[b.reason])
+}
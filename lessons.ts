@@ -0,0 +1,192 @@
+/**
+ * Lesson manifest for tutorial entries.
+ *
+ * Reads the frontmatter of every `lessons/*.mdx` file into typed,
+ * validated step records so callers never re-parse MDX themselves.
+ *
+ * @example
+ * ```ts
+ * import { getLesson, getLessons } from "./lessons"
+ *
+ * const lessons = getLessons("jj-git")
+ * // [{ step: 0, title: "Why jj over git?", ... }, { step: 1, ... }, ...]
+ *
+ * const setup = getLesson("jj-git", 1)
+ * // { step: 1, title: "Installation & Setup", commands: { gitCommands: [...], jjCommands: [...] }, ... }
+ * ```
+ *
+ * @module
+ */
+
+import { existsSync, readdirSync } from "node:fs"
+import { join } from "node:path"
+import {
+  type SandboxOverride,
+  type StepValidation,
+  parseSandboxOverride,
+  parseStepValidation,
+} from "./config"
+import {
+  type ContentOptions,
+  ContentError,
+  entryDir,
+  expectKnownKeys,
+  expectNumber,
+  expectString,
+  expectStringArray,
+  readFrontmatter,
+  stepFileName,
+} from "./content"
+
+/**
+ * Frontmatter keys holding per-step command lists.
+ */
+export type CommandListKey = "gitCommands" | "jjCommands" | "zioCommands" | "ceCommands" | "commands"
+
+/**
+ * Command lists declared by a step, keyed by frontmatter key.
+ */
+export type StepCommands = Readonly<Partial<Record<CommandListKey, readonly string[]>>>
+
+/**
+ * Command list keys each entry may use in its step frontmatter.
+ */
+export const commandListKeys: Readonly<Record<string, readonly CommandListKey[]>> = {
+  "jj-git": ["gitCommands", "jjCommands"],
+  "zio-cats": ["zioCommands", "ceCommands"],
+  "effect-zio": [],
+  tmux: ["commands"],
+}
+
+/**
+ * A single lesson (the `index.mdx` intro is step 0).
+ */
+export interface Lesson {
+  /** Entry slug this lesson belongs to */
+  readonly slug: string
+  /** Step number (0 for the intro) */
+  readonly step: number
+  /** Absolute path of the MDX file */
+  readonly file: string
+  /** Lesson title */
+  readonly title: string
+  /** Short lesson description */
+  readonly description: string
+  /** Declared completion time (e.g., "~5 min") */
+  readonly estimatedTime?: string
+  /** Command lists shown in the step header */
+  readonly commands: StepCommands
+  /** Sandbox settings overriding the entry defaults */
+  readonly sandbox?: SandboxOverride
+  /** Validation prelude overriding the entry defaults, for the step or single snippets */
+  readonly validation?: StepValidation
+  /** MDX body after the frontmatter */
+  readonly body: string
+}
+
+const baseKeys = ["title", "step", "description", "estimatedTime", "sandbox", "validation"] as const
+
+/**
+ * Parse an MDX lesson file into a validated lesson record.
+ *
+ * @param slug - The entry slug the file belongs to.
+ * @param file - Absolute path of the MDX file.
+ * @param expectedStep - Step number implied by the file name.
+ * @returns The validated lesson.
+ * @throws {ContentError} If the frontmatter does not match the schema.
+ */
+export function parseLessonFile(slug: string, file: string, expectedStep: number): Lesson {
+  const { data, body } = readFrontmatter(file)
+  const listKeys = commandListKeys[slug] ?? []
+  expectKnownKeys(data, [...baseKeys, ...listKeys], file, "")
+
+  // The intro may omit `step`; numbered lessons must declare it.
+  const step =
+    data["step"] === undefined && expectedStep === 0 ? 0 : expectNumber(data["step"], file, "step")
+  if (step !== expectedStep) {
+    throw new ContentError(file, "step", `expected ${expectedStep} to match the file name, got ${step}`)
+  }
+
+  const commands: Partial<Record<CommandListKey, readonly string[]>> = {}
+  for (const key of listKeys) {
+    if (data[key] !== undefined) {
+      commands[key] = expectStringArray(data[key], file, key)
+    }
+  }
+
+  return {
+    slug,
+    step,
+    file,
+    title: expectString(data["title"], file, "title"),
+    description: expectString(data["description"], file, "description"),
+    ...(data["estimatedTime"] !== undefined && {
+      estimatedTime: expectString(data["estimatedTime"], file, "estimatedTime"),
+    }),
+    commands,
+    ...(data["sandbox"] !== undefined && { sandbox: parseSandboxOverride(data["sandbox"], file) }),
+    ...(data["validation"] !== undefined && { validation: parseStepValidation(data["validation"], file) }),
+    body,
+  }
+}
+
+/**
+ * List the numbered step files of an entry, sorted by step.
+ *
+ * @param slug - The entry slug (e.g., "jj-git", "tmux").
+ * @param options - Optional content root override.
+ * @returns Step numbers and absolute file paths.
+ */
+export function listStepFiles(
+  slug: string,
+  options: ContentOptions = {},
+): readonly { readonly step: number; readonly file: string }[] {
+  const dir = join(entryDir(slug, options), "lessons")
+  if (!existsSync(dir)) {
+    return []
+  }
+
+  return readdirSync(dir)
+    .flatMap((name) => {
+      const match = /^(\d+)-step\.mdx$/.exec(name)
+      return match ? [{ step: Number(match[1]), file: join(dir, name) }] : []
+    })
+    .sort((a, b) => a.step - b.step)
+}
+
+/**
+ * Get every lesson of an entry, intro first.
+ *
+ * @param slug - The entry slug (e.g., "jj-git", "tmux").
+ * @param options - Optional content root override.
+ * @returns Lessons sorted by step (empty if the entry has no lessons).
+ * @throws {ContentError} If any lesson frontmatter is invalid.
+ */
+export function getLessons(slug: string, options: ContentOptions = {}): readonly Lesson[] {
+  const lessons: Lesson[] = []
+
+  const intro = join(entryDir(slug, options), "lessons", stepFileName(0))
+  if (existsSync(intro)) {
+    lessons.push(parseLessonFile(slug, intro, 0))
+  }
+
+  for (const { step, file } of listStepFiles(slug, options)) {
+    lessons.push(parseLessonFile(slug, file, step))
+  }
+
+  return lessons
+}
+
+/**
+ * Get a single lesson of an entry.
+ *
+ * @param slug - The entry slug (e.g., "jj-git", "tmux").
+ * @param step - Step number (0 for the intro).
+ * @param options - Optional content root override.
+ * @returns The lesson if found, `null` otherwise.
+ * @throws {ContentError} If the lesson frontmatter is invalid.
+ */
+export function getLesson(slug: string, step: number, options: ContentOptions = {}): Lesson | null {
+  const file = join(entryDir(slug, options), "lessons", stepFileName(step))
+  return existsSync(file) ? parseLessonFile(slug, file, step) : null
+}
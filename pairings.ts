@@ -9,10 +9,12 @@
  * import { toolPairings, getPairing } from "./pairings"
  *
  * const jjGit = getPairing("jj-git")
- * // { slug: "jj-git", from: { name: "git", ... }, ... }
+ * // { slug: "jj-git", from: "git", to: "jj", ... }
  * ```
  */
 
+import { type ContentVerification, type Tool, type ToolId, getTool } from "./tools"
+
 /**
  * Status of a tool pairing.
  */
@@ -37,25 +39,20 @@ export interface ToolPairing {
    */
   readonly slug: string
 
+  /**
+   * Pairing-specific description shown on the entry card (e.g., "jj for git experts").
+   */
+  readonly description: string
+
   /**
    * The source tool (what users already know).
    */
-  readonly from: {
-    readonly name: string
-    readonly description: string
-    readonly color?: string
-    readonly icon?: string
-  }
+  readonly from: ToolId
 
   /**
    * The target tool (what users want to learn).
    */
-  readonly to: {
-    readonly name: string
-    readonly description: string
-    readonly color?: string
-    readonly icon?: string
-  }
+  readonly to: ToolId
 
   /**
    * Category for grouping on home page.
@@ -83,19 +80,24 @@ export interface ToolPairing {
   readonly status: PairingStatus
 
   /**
-   * GitHub URL for the "to" tool (for footer link).
+   * Searchable tags for discoverability.
+   */
+  readonly tags?: readonly string[]
+
+  /**
+   * Slugs of entries recommended before this one.
    */
-  readonly toUrl?: string
+  readonly prerequisites?: readonly string[]
 
   /**
-   * Searchable tags for discoverability.
+   * Slugs of entries covering related material (no ordering implied).
    */
-  readonly tags?: readonly string[]
+  readonly related?: readonly string[]
 
   /**
-   * Primary programming language of the target tool.
+   * Tool versions the content targets and when it was last verified.
    */
-  readonly language?: "typescript" | "scala" | "shell" | "other"
+  readonly verification?: ContentVerification
 }
 
 /**
@@ -112,15 +114,15 @@ export interface SingleToolEntry {
    */
   readonly slug: string
 
+  /**
+   * Description shown on the entry card (e.g., "Terminal multiplexer").
+   */
+  readonly description: string
+
   /**
    * The tool being learned.
    */
-  readonly tool: {
-    readonly name: string
-    readonly description: string
-    readonly color?: string
-    readonly icon?: string
-  }
+  readonly tool: ToolId
 
   /**
    * Category for grouping on home page.
@@ -148,19 +150,24 @@ export interface SingleToolEntry {
   readonly status: PairingStatus
 
   /**
-   * GitHub URL for the tool (for footer link).
+   * Searchable tags for discoverability.
    */
-  readonly toolUrl?: string
+  readonly tags?: readonly string[]
 
   /**
-   * Searchable tags for discoverability.
+   * Slugs of entries recommended before this one.
    */
-  readonly tags?: readonly string[]
+  readonly prerequisites?: readonly string[]
+
+  /**
+   * Slugs of entries covering related material (no ordering implied).
+   */
+  readonly related?: readonly string[]
 
   /**
-   * Primary programming language of the tool.
+   * Tool versions the content targets and when it was last verified.
    */
-  readonly language?: "typescript" | "scala" | "shell" | "other"
+  readonly verification?: ContentVerification
 }
 
 /**
@@ -194,126 +201,99 @@ export function isTutorial(entry: TutorialEntry): entry is SingleToolEntry {
  * Published pairings: zio-cats, jj-git, effect-zio.
  * Published tutorials: tmux.
  * Others are placeholders for future expansion.
+ *
+ * Homepages and languages come from the tool registry; see
+ * {@link getEntryTool}.
+ *
+ * `verification` records the tool versions an entry's lessons target;
+ * each glossary module declares its own. `verifiedAt` is added once the
+ * content has been run against those versions.
  */
 export const toolEntries = [
   {
     mode: "pairing" as const,
     slug: "zio-cats",
-    from: {
-      name: "Cats Effect",
-      description: "Cats Effect 3",
-      color: "#8b5cf6",
-      icon: "scala",
-    },
-    to: {
-      name: "ZIO",
-      description: "Learn ZIO 2.0",
-      color: "#0066ff",
-      icon: "scala",
-    },
+    description: "Learn ZIO 2.0",
+    from: "cats-effect" as const,
+    to: "zio" as const,
     category: "Frameworks & Libraries" as const,
     steps: 15,
     estimatedTime: "~70 min",
     status: "published" as const,
-    toUrl: "https://zio.dev/",
-    language: "scala" as const,
     tags: ["scala", "zio", "cats-effect", "functional"] as const,
+    related: ["effect-zio"] as const,
+    verification: {
+      toolVersions: { "cats-effect": "3", zio: "2" },
+    },
   },
   {
     mode: "pairing" as const,
     slug: "jj-git",
-    from: {
-      name: "git",
-      description: "Distributed VCS",
-      color: "#f05032",
-      icon: "git-branch",
-    },
-    to: {
-      name: "jj",
-      description: "jj for git experts",
-      color: "#39d96c",
-      icon: "arrows-clockwise",
-    },
+    description: "jj for git experts",
+    from: "git" as const,
+    to: "jj" as const,
     category: "Version Control" as const,
     steps: 12,
     estimatedTime: "~40 min",
     status: "published" as const,
-    toUrl: "https://github.com/jj-vcs/jj",
-    language: "shell" as const,
     tags: ["git", "jj", "vcs", "version-control"] as const,
+    verification: {
+      // `jj bookmark` (taught throughout) replaced `jj branch` in 0.22.
+      toolVersions: { git: "2", jj: "0.22" },
+    },
   },
   {
     mode: "pairing" as const,
     slug: "effect-zio",
-    from: {
-      name: "ZIO",
-      description: "ZIO 2",
-      color: "#DC322F",
-      icon: "scala",
-    },
-    to: {
-      name: "Effect",
-      description: "Effect.TS for ZIO developers",
-      color: "#3178C6",
-      icon: "typescript",
-    },
+    description: "Effect.TS for ZIO developers",
+    from: "zio" as const,
+    to: "effect" as const,
     category: "Frameworks & Libraries" as const,
     steps: 15,
     estimatedTime: "~75 min",
     status: "published" as const,
-    toUrl: "https://effect.website",
-    language: "typescript" as const,
     tags: ["typescript", "effect", "zio", "scala", "functional"] as const,
+    prerequisites: ["zio-cats"] as const,
+    verification: {
+      toolVersions: { zio: "2", effect: "3" },
+    },
   },
   // Future pairings (commented out until content is ready)
   // {
   //   slug: "pijul-git",
-  //   from: {
-  //     name: "git",
-  //     description: "Distributed VCS",
-  //   },
-  //   to: {
-  //     name: "pijul",
-  //     description: "Patch-based VCS",
-  //   },
+  //   description: "Patch-based VCS",
+  //   from: "git" as const,
+  //   to: "pijul" as const,
   //   category: "Version Control" as const,
   //   steps: 8,
   //   estimatedTime: "~25 min",
   //   status: "coming_soon" as const,
-  //   toUrl: "https://pijul.org",
   // },
   // {
   //   slug: "nix-brew",
-  //   from: {
-  //     name: "homebrew",
-  //     description: "macOS Package Manager",
-  //   },
-  //   to: {
-  //     name: "nix",
-  //     description: "Reproducible Package Manager",
-  //   },
+  //   description: "Reproducible Package Manager",
+  //   from: "homebrew" as const,
+  //   to: "nix" as const,
   //   category: "Package Management" as const,
   //   steps: 10,
   //   estimatedTime: "~35 min",
   //   status: "coming_soon" as const,
-  //   toUrl: "https://nixos.org",
   // },
   {
     mode: "tutorial" as const,
     slug: "tmux",
-    tool: {
-      name: "tmux",
-      description: "Terminal multiplexer",
-      color: "#1bbf4e",
-      icon: "terminal",
-    },
+    description: "Terminal multiplexer",
+    tool: "tmux" as const,
     category: "Other" as const,
     steps: 8,
     estimatedTime: "~30 min",
     status: "published" as const,
-    toolUrl: "https://github.com/tmux/tmux",
-    language: "shell" as const,
     tags: ["tmux", "terminal", "multiplexer", "shell"] as const,
+    verification: {
+      // Lesson snippets run with scripts/validate-snippets.ts against tmux 3.3a.
+      toolVersions: { tmux: "3" },
+      verifiedAt: "2026-10-19",
+    },
   },
 ] as const satisfies readonly TutorialEntry[]
 
@@ -420,3 +400,50 @@ export function isValidEntrySlug(slug: string): slug is TutorialEntry["slug"] {
 export function isValidPairingSlug(slug: string): slug is ToolPairing["slug"] {
   return toolEntries.some((entry) => entry.slug === slug && isPairing(entry))
 }
+
+/**
+ * Get the tools an entry covers (`from` then `to` for pairings).
+ *
+ * @param entry - The tutorial entry.
+ * @returns Tool metadata resolved from the tool registry.
+ */
+export function getEntryTools(entry: TutorialEntry): readonly Tool[] {
+  return isPairing(entry) ? [getTool(entry.from), getTool(entry.to)] : [getTool(entry.tool)]
+}
+
+/**
+ * Get the tool an entry teaches (`to` for pairings).
+ *
+ * Its homepage is the entry's footer link and its language the entry's
+ * primary language.
+ *
+ * @param entry - The tutorial entry.
+ * @returns Tool metadata resolved from the tool registry.
+ *
+ * @example
+ * ```ts
+ * getEntryTool(getEntry("effect-zio")!).language
+ * // "typescript"
+ * ```
+ */
+export function getEntryTool(entry: TutorialEntry): Tool {
+  return getTool(isPairing(entry) ? entry.to : entry.tool)
+}
+
+/**
+ * Get every entry involving a tool, as source, target or single tool.
+ *
+ * @param toolId - The tool id (e.g., "zio", "git").
+ * @returns Entries in registry order.
+ *
+ * @example
+ * ```ts
+ * getEntriesForTool("zio").map((entry) => entry.slug)
+ * // ["zio-cats", "effect-zio"]
+ * ```
+ */
+export function getEntriesForTool(toolId: ToolId): readonly TutorialEntry[] {
+  return toolEntries.filter((entry: TutorialEntry) =>
+    isPairing(entry) ? entry.from === toolId || entry.to === toolId : entry.tool === toolId,
+  )
+}
@@ -0,0 +1,327 @@
+/**
+ * Validation prelude templates.
+ *
+ * Expands a snippet into the program build-time validation runs. The
+ * prelude comes from the pairing's `config.yml` (the `secondary`
+ * prelude for snippets in the secondary language, e.g. Scala in
+ * `CrossLanguageBlock`), overridden by the step's frontmatter and then
+ * by the frontmatter entry for the snippet's `id`:
+ *
+ * ```yaml
+ * validation:
+ *   imports: ["import zio._"]
+ *   snippets:
+ *     retry-policy:
+ *       wrapper: |
+ *         ${imports}
+ *         object Main {
+ *           ${code}
+ *         }
+ * ```
+ *
+ * Each key of an override replaces the inherited value. A wrapper
+ * places the `${imports}` and `${code}` sections; imports it does not
+ * place are prepended.
+ *
+ * @example
+ * ```ts
+ * import { expandSnippets } from "./prelude"
+ *
+ * const [first] = expandSnippets("zio-cats")
+ * console.log(first?.program)
+ * // import zio._
+ * // ...
+ * // case class User(id: Int, name: String)
+ * // ...
+ * ```
+ *
+ * @module
+ */
+
+import { join } from "node:path"
+import {
+  type SandboxEnvironment,
+  type ValidationConfig,
+  type ValidationPrelude,
+  loadPairingConfig,
+  mergeValidationPrelude,
+} from "./config"
+import { type ContentOptions, ContentError, entryDir } from "./content"
+import { getLesson, getLessons } from "./lessons"
+import { type Snippet, getSnippets } from "./snippets"
+
+/**
+ * Named sections a prelude wrapper can place.
+ */
+export type PreludePlaceholder = "imports" | "code"
+
+/**
+ * All prelude placeholders, in the order unplaced sections are prepended.
+ */
+export const preludePlaceholders: readonly PreludePlaceholder[] = ["imports", "code"]
+
+/**
+ * A parsed wrapper: literal text and placeholders.
+ */
+export type TemplateSegment =
+  | { readonly kind: "text"; readonly text: string }
+  | { readonly kind: "placeholder"; readonly name: PreludePlaceholder }
+
+/**
+ * Environments a snippet language can run in.
+ */
+export const languageEnvironments: Readonly<Record<string, readonly SandboxEnvironment[]>> = {
+  shell: ["bash", "tmux"],
+  bash: ["bash", "tmux"],
+  sh: ["bash", "tmux"],
+  scala: ["scala"],
+  typescript: ["typescript"],
+  ts: ["typescript"],
+  javascript: ["node"],
+  js: ["node"],
+}
+
+/**
+ * A snippet expanded with its prelude.
+ */
+export interface ExpandedSnippet {
+  /** The snippet */
+  readonly snippet: Snippet
+  /** Environment the program runs in */
+  readonly environment: SandboxEnvironment
+  /** Whether the primary or the `secondary` validation settings apply */
+  readonly role: "primary" | "secondary"
+  /** Shell commands run in the workspace before the program */
+  readonly setup: readonly string[]
+  /** The complete program: imports and wrapper around the snippet code */
+  readonly program: string
+  /** 1-based line of the program where the snippet code starts */
+  readonly codeLine: number
+}
+
+/**
+ * Where a prelude value was declared, for error messages.
+ */
+interface Declared<T> {
+  readonly value: T
+  readonly file: string
+  readonly path: string
+}
+
+interface PreludeLayer {
+  readonly prelude: ValidationPrelude
+  readonly file: string
+  readonly path: string
+}
+
+/**
+ * Parse a wrapper template.
+ *
+ * `${code}` must appear exactly once; `${imports}` at most once. `$${` is a literal `${`, for wrappers that use string
+ * interpolation themselves.
+ *
+ * @param template - The wrapper source.
+ * @param file - File name used in error messages.
+ * @param path - Key path of the wrapper inside the file.
+ * @returns Text and placeholder segments in order.
+ * @throws {ContentError} If a placeholder is unknown, repeated or `${code}` is missing.
+ */
+export function parsePreludeTemplate(template: string, file: string, path: string): readonly TemplateSegment[] {
+  const segments: TemplateSegment[] = []
+  const seen = new Set<PreludePlaceholder>()
+  let text = ""
+  let last = 0
+
+  for (const match of template.matchAll(/\$(\$)?\{(\w*)\}/g)) {
+    const [whole, escaped, name = ""] = match
+    text += template.slice(last, match.index)
+    last = match.index + whole.length
+    if (escaped) {
+      text += whole.slice(1)
+      continue
+    }
+    if (!(preludePlaceholders as readonly string[]).includes(name)) {
+      throw new ContentError(file, path, `unknown placeholder "\${${name}}" (write $\${ for a literal \${)`)
+    }
+    const placeholder = name as PreludePlaceholder
+    if (seen.has(placeholder)) {
+      throw new ContentError(file, path, `placeholder "\${${name}}" appears more than once`)
+    }
+    seen.add(placeholder)
+    if (text) segments.push({ kind: "text", text })
+    segments.push({ kind: "placeholder", name: placeholder })
+    text = ""
+  }
+
+  text += template.slice(last)
+  if (text) segments.push({ kind: "text", text })
+  if (!seen.has("code")) {
+    throw new ContentError(file, path, 'missing the "${code}" placeholder')
+  }
+  return segments
+}
+
+/**
+ * Render a parsed wrapper.
+ *
+ * Non-empty sections the wrapper does not place are prepended, in
+ * {@link preludePlaceholders} order, separated by blank lines. A
+ * placeholder preceded only by indentation indents its whole section.
+ *
+ * @param segments - The parsed wrapper (`[{ kind: "placeholder", name: "code" }]` for none).
+ * @param values - Text of each section.
+ * @returns The program and the offset of the code in it.
+ */
+export function renderPreludeTemplate(
+  segments: readonly TemplateSegment[],
+  values: Readonly<Record<PreludePlaceholder, string>>,
+): { readonly program: string; readonly codeOffset: number } {
+  const placed = new Set(segments.flatMap((segment) => (segment.kind === "placeholder" ? [segment.name] : [])))
+  const head = preludePlaceholders
+    .filter((name) => !placed.has(name) && values[name] !== "")
+    .map((name) => `${values[name]}\n\n`)
+    .join("")
+
+  let program = head
+  let codeOffset = 0
+  for (const segment of segments) {
+    if (segment.kind === "text") {
+      program += segment.text
+      continue
+    }
+    if (segment.name === "code") codeOffset = program.length
+    // A placeholder indented on its own line indents every line of its section.
+    const indent = /(?:^|\n)([ \t]*)$/.exec(program)?.[1] ?? ""
+    program += values[segment.name].replace(/\n(?=.)/g, `\n${indent}`)
+  }
+  return { program, codeOffset }
+}
+
+function snippetRole(
+  snippet: Snippet,
+  validation: ValidationConfig,
+): { readonly environment: SandboxEnvironment; readonly role: "primary" | "secondary" } | null {
+  const environments = languageEnvironments[snippet.language ?? ""] ?? []
+  if (environments.includes(validation.environment)) {
+    return { environment: validation.environment, role: "primary" }
+  }
+  if (validation.secondary && environments.includes(validation.secondary.environment)) {
+    return { environment: validation.secondary.environment, role: "secondary" }
+  }
+  return null
+}
+
+function mergeLayers(layers: readonly PreludeLayer[]): {
+  readonly setup: readonly string[]
+  readonly imports: readonly string[]
+  readonly wrapper: Declared<string> | null
+} {
+  let merged: ValidationPrelude = {}
+  let wrapper: Declared<string> | null = null
+  for (const { prelude, file, path } of layers) {
+    merged = mergeValidationPrelude(merged, prelude)
+    if (prelude.wrapper !== undefined) wrapper = { value: prelude.wrapper, file, path: `${path}.wrapper` }
+  }
+  return { setup: merged.setup ?? [], imports: merged.imports ?? [], wrapper }
+}
+
+/**
+ * Create a function expanding the snippets of one entry.
+ *
+ * The pairing config and lesson frontmatter are read once and cached.
+ *
+ * @param slug - The entry slug (e.g., "zio-cats").
+ * @param options - Optional content root override.
+ * @returns A function returning the expanded snippet, or `null` if the
+ *   entry is not validated or no validation environment runs the
+ *   snippet's language.
+ * @throws {ContentError} (from the returned function) If a wrapper is
+ *   malformed.
+ */
+export function createSnippetExpander(
+  slug: string,
+  options: ContentOptions = {},
+): (snippet: Snippet) => ExpandedSnippet | null {
+  const validation = loadPairingConfig(slug, options).validation
+  const configFile = join(entryDir(slug, options), "config.yml")
+  const lessons = new Map<number, ReturnType<typeof getLesson>>()
+
+  return (snippet) => {
+    const target = validation ? snippetRole(snippet, validation) : null
+    if (!validation || !target) {
+      return null
+    }
+    const { environment, role } = target
+    const base =
+      role === "primary"
+        ? { prelude: validation.prelude, file: configFile, path: "validation.prelude" }
+        : { prelude: validation.secondary?.prelude ?? {}, file: configFile, path: "validation.secondary.prelude" }
+
+    const layers: PreludeLayer[] = [base]
+    if (snippet.document === "lesson") {
+      const lesson = lessons.get(snippet.step) ?? getLesson(slug, snippet.step, options)
+      lessons.set(snippet.step, lesson)
+      const step = lesson?.validation
+      const override = snippet.id === null ? undefined : step?.snippets?.[snippet.id]
+      const layer = (prelude: ValidationPrelude | undefined, path: string) => {
+        if (prelude) layers.push({ prelude, file: snippet.file, path })
+      }
+      if (role === "primary") {
+        layer(step, "validation")
+        layer(override, `validation.snippets.${snippet.id}`)
+      } else {
+        layer(step?.secondary, "validation.secondary")
+        layer(override?.secondary, `validation.snippets.${snippet.id}.secondary`)
+      }
+    }
+
+    const { setup, imports, wrapper } = mergeLayers(layers)
+    const segments = wrapper
+      ? parsePreludeTemplate(wrapper.value, wrapper.file, wrapper.path)
+      : [{ kind: "placeholder", name: "code" } as const]
+    const { program, codeOffset } = renderPreludeTemplate(segments, {
+      imports: imports.join("\n"),
+      code: snippet.code,
+    })
+
+    return {
+      snippet,
+      environment,
+      role,
+      setup,
+      program,
+      codeLine: program.slice(0, codeOffset).split("\n").length,
+    }
+  }
+}
+
+/**
+ * Expand every snippet of an entry that a validation environment runs.
+ *
+ * Also checks that each `validation.snippets` key in lesson frontmatter
+ * matches the `id` of a snippet in that lesson.
+ *
+ * @param slug - The entry slug (e.g., "zio-cats").
+ * @param options - Optional content root override.
+ * @returns Expanded snippets in the order of {@link getSnippets}.
+ * @throws {ContentError} If a wrapper is malformed or an override
+ *   targets an unknown snippet id.
+ */
+export function expandSnippets(slug: string, options: ContentOptions = {}): readonly ExpandedSnippet[] {
+  const expand = createSnippetExpander(slug, options)
+  const snippets = getSnippets(slug, options)
+
+  const ids = new Set(snippets.flatMap((snippet) => (snippet.id === null ? [] : [`${snippet.file}#${snippet.id}`])))
+  for (const lesson of getLessons(slug, options)) {
+    for (const id of Object.keys(lesson.validation?.snippets ?? {})) {
+      if (!ids.has(`${lesson.file}#${id}`)) {
+        throw new ContentError(lesson.file, `validation.snippets.${id}`, "no snippet in this lesson has this id")
+      }
+    }
+  }
+
+  return snippets.flatMap((snippet) => {
+    const expanded = expand(snippet)
+    return expanded ? [expanded] : []
+  })
+}
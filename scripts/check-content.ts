@@ -0,0 +1,45 @@
+/**
+ * Check that the tutorial registry matches the content on disk and that
+ * glossary data is well formed.
+ *
+ * Exits with a non-zero status when any mismatch or glossary error is
+ * found, so it can run as a CI test step. Glossary warnings are printed
+ * but do not fail the check; glossary column orientation problems do.
+ *
+ * @example
+ * ```sh
+ * npx tsx scripts/check-content.ts
+ * ```
+ *
+ * @module
+ */
+
+import { checkConsistency, formatIssues } from "../consistency"
+import { validateAllOrientations } from "../glossary/lookup"
+import { validateReferences } from "../glossary/validate"
+
+const issues = checkConsistency()
+const glossaryIssues = validateReferences()
+const orientationIssues = validateAllOrientations()
+const glossaryErrors = glossaryIssues.filter((issue) => issue.severity === "error")
+
+if (issues.length > 0) {
+  console.error(formatIssues(issues))
+}
+
+for (const issue of glossaryIssues) {
+  const location = issue.id === undefined ? issue.slug : `${issue.slug}#${issue.id}`
+  console.error(`glossary/${location}: ${issue.severity} [${issue.kind}] ${issue.message}`)
+}
+
+for (const issue of orientationIssues) {
+  console.error(`glossary/${issue.slug}: error [${issue.kind}] ${issue.message}`)
+}
+
+const errorCount = glossaryErrors.length + orientationIssues.length
+if (issues.length > 0 || errorCount > 0) {
+  console.error(`\n${issues.length} consistency issue(s), ${errorCount} glossary error(s) found`)
+  process.exit(1)
+}
+
+console.log("Registry, content and glossaries are consistent")
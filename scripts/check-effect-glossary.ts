@@ -0,0 +1,41 @@
+/**
+ * Type-check the Effect side of the Effect ← ZIO glossary against an installed `effect`.
+ *
+ * Exits with a non-zero status when an entry references a missing or
+ * renamed member or its probe does not compile.
+ *
+ * @example
+ * ```sh
+ * npx tsx scripts/check-effect-glossary.ts --project ../toolkata
+ * ```
+ *
+ * @module
+ */
+
+import { parseArgs } from "node:util"
+import { checkEffectGlossary } from "../glossary/typecheck"
+
+const { values } = parseArgs({
+  options: {
+    project: { type: "string" },
+    verbose: { type: "boolean", default: false },
+  },
+})
+
+const issues = checkEffectGlossary(values.project === undefined ? {} : { projectRoot: values.project })
+
+for (const issue of issues) {
+  const hint = issue.suggestion ? ` (did you mean ${issue.suggestion}?)` : ""
+  console.log(`${issue.id} [${issue.kind}] ${issue.command}${hint}`)
+  console.log(issue.message.replace(/^/gm, "    "))
+  if (values.verbose) {
+    console.log(issue.probe.trimEnd().replace(/^/gm, "    | "))
+  }
+}
+
+if (issues.length > 0) {
+  console.error(`\n${issues.length} type-check issue(s) found`)
+  process.exit(1)
+}
+
+console.log("Every Effect glossary entry type-checks")
@@ -0,0 +1,49 @@
+/**
+ * Report entries and glossaries never verified, verified too long ago, verified against old
+ * tool versions, or naming other versions than they declare.
+ *
+ * Exits with a non-zero status when any issue is found.
+ *
+ * @example
+ * ```sh
+ * npx tsx scripts/check-versions.ts --latest latest-versions.json --max-age 90
+ * ```
+ *
+ * @module
+ */
+
+import { parseArgs } from "node:util"
+import { checkVersions, formatVersionIssue, loadLatestVersions } from "../versions"
+
+const { values } = parseArgs({
+  options: {
+    latest: { type: "string" },
+    "max-age": { type: "string" },
+  },
+})
+
+const maxAgeDays = values["max-age"] === undefined ? undefined : Number(values["max-age"])
+if (maxAgeDays !== undefined && !Number.isFinite(maxAgeDays)) {
+  console.error(`--max-age must be a number of days, got "${values["max-age"]}"`)
+  process.exit(2)
+}
+
+const reports = checkVersions({
+  ...(values.latest !== undefined && { latest: loadLatestVersions(values.latest) }),
+  ...(maxAgeDays !== undefined && { maxAgeDays }),
+})
+
+let issueCount = 0
+for (const report of reports) {
+  for (const issue of report.issues) {
+    console.log(`${report.source} ${report.slug}: ${formatVersionIssue(issue)}`)
+    issueCount++
+  }
+}
+
+if (issueCount > 0) {
+  console.error(`\n${issueCount} version issue(s) found`)
+  process.exit(1)
+}
+
+console.log("All content is verified against current tool versions")
@@ -0,0 +1,55 @@
+/**
+ * Export a glossary as an Anki-compatible flashcard deck (TSV).
+ *
+ * Writes to stdout unless `--out` is given. Import the file in Anki with
+ * File → Import; re-importing updates existing notes.
+ *
+ * @example
+ * ```sh
+ * npx tsx scripts/export-flashcards.ts jj-git --out jj-git.tsv
+ * npx tsx scripts/export-flashcards.ts effect-zio --direction forward
+ * ```
+ *
+ * @module
+ */
+
+import { writeFileSync } from "node:fs"
+import { parseArgs } from "node:util"
+import { type CardDirection, buildDeck, toAnkiTsv } from "../flashcards/deck"
+
+const directions: readonly CardDirection[] = ["forward", "reverse"]
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    direction: { type: "string", multiple: true },
+    category: { type: "string", multiple: true },
+    deck: { type: "string" },
+    out: { type: "string" },
+  },
+})
+
+const [slug] = positionals
+const selected = values.direction?.map((value) => directions.find((direction) => direction === value))
+if (!slug || selected?.includes(undefined)) {
+  console.error("Usage: export-flashcards.ts <slug> [--direction forward|reverse] [--category NAME] [--deck NAME] [--out file]")
+  process.exit(2)
+}
+
+const deck = buildDeck(slug, {
+  ...(selected && { directions: selected.filter((direction) => direction !== undefined) }),
+  ...(values.category && { categories: values.category }),
+})
+if (!deck) {
+  console.error(`No comparison glossary for "${slug}"`)
+  process.exit(2)
+}
+
+const output = toAnkiTsv(deck, values.deck)
+
+if (values.out === undefined) {
+  process.stdout.write(output)
+} else {
+  writeFileSync(values.out, output)
+  console.log(`Wrote ${deck.cards.length} cards to ${values.out}`)
+}
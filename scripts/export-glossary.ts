@@ -0,0 +1,51 @@
+/**
+ * Export a glossary or cheat sheet to Markdown, CSV, JSON or printable HTML.
+ *
+ * Writes to stdout unless `--out` is given.
+ *
+ * @example
+ * ```sh
+ * npx tsx scripts/export-glossary.ts jj-git --format html --out jj-git.html
+ * npx tsx scripts/export-glossary.ts tmux --format csv
+ * ```
+ *
+ * @module
+ */
+
+import { writeFileSync } from "node:fs"
+import { parseArgs } from "node:util"
+import { getReference } from "../glossary"
+import { type ExportFormat, exportReference } from "../glossary/export"
+
+const formats: readonly ExportFormat[] = ["markdown", "csv", "json", "html"]
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    format: { type: "string", default: "markdown" },
+    out: { type: "string" },
+    title: { type: "string" },
+  },
+})
+
+const [slug] = positionals
+const format = formats.find((candidate) => candidate === values.format)
+if (!slug || !format) {
+  console.error(`Usage: export-glossary.ts <slug> [--format ${formats.join("|")}] [--out file] [--title text]`)
+  process.exit(2)
+}
+
+const reference = getReference(slug)
+if (!reference) {
+  console.error(`No glossary or cheat sheet for "${slug}"`)
+  process.exit(2)
+}
+
+const output = exportReference(reference, format, values.title === undefined ? {} : { title: values.title })
+
+if (values.out === undefined) {
+  process.stdout.write(output)
+} else {
+  writeFileSync(values.out, output)
+  console.log(`Wrote ${values.out}`)
+}
@@ -0,0 +1,28 @@
+/**
+ * Report registry `estimatedTime` values that drift from lesson content.
+ *
+ * Exits with a non-zero status when any published entry is flagged.
+ *
+ * @example
+ * ```sh
+ * npx tsx scripts/report-durations.ts
+ * ```
+ *
+ * @module
+ */
+
+import { checkEstimatedTimes, formatDuration } from "../durations"
+
+const reports = checkEstimatedTimes()
+
+for (const report of reports) {
+  const marker = report.flagged ? "!" : " "
+  const deviation = Number.isFinite(report.deviation) ? `${Math.round(report.deviation * 100)}%` : "unparseable"
+  console.log(
+    `${marker} ${report.slug.padEnd(12)} declared ${report.declared.padEnd(9)} computed ${formatDuration(report.computed).padEnd(9)} (${deviation})`,
+  )
+}
+
+if (reports.some((report) => report.flagged)) {
+  process.exit(1)
+}
@@ -0,0 +1,22 @@
+/**
+ * Report inconsistencies for tools covered by more than one glossary (e.g., ZIO).
+ *
+ * Advisory only: always exits with status 0.
+ *
+ * @example
+ * ```sh
+ * npx tsx scripts/report-shared-tools.ts
+ * ```
+ *
+ * @module
+ */
+
+import { checkSharedTools } from "../glossary/cross-check"
+
+const issues = checkSharedTools()
+
+for (const issue of issues) {
+  console.log(`${issue.tool} [${issue.kind}] ${issue.message}`)
+}
+
+console.log(`\n${issues.length} cross-glossary issue(s) found`)
@@ -0,0 +1,87 @@
+/**
+ * Translate a git command line to jj using the jj-git glossary.
+ *
+ * Prints the jj command, the glossary note and the match confidence.
+ * When no glossary entry fits, prints the closest entries and exits 1;
+ * when several fit and only their annotations tell them apart (e.g.,
+ * `git rebase -i`), prints each of them and exits 1.
+ * The git command line is passed on as the shell split it, so quoted
+ * arguments stay whole.
+ * Options of this script come before the git command line, which
+ * starts at its first non-option argument or after `--`.
+ *
+ * @example
+ * ```sh
+ * npx tsx scripts/translate-git.ts git checkout -b feature origin/main
+ * npx tsx scripts/translate-git.ts --all git push -u origin topic
+ * npx tsx scripts/translate-git.ts -- git push --all
+ * ```
+ *
+ * @module
+ */
+
+import { parseArgs } from "node:util"
+import { type Translation, translateGitCommand } from "../glossary/translate"
+
+// Everything from the git command line on is passed through untouched (e.g., `git push --all`).
+const argv = process.argv.slice(2)
+const firstPositional = argv.findIndex((arg) => !arg.startsWith("-"))
+const optionCount = firstPositional === -1 ? argv.length : firstPositional
+// Only a `--` among this script's options separates them; a later one is git's (e.g., `git checkout -- file`).
+const separator = argv.slice(0, optionCount).indexOf("--")
+const gitStart = separator === -1 ? optionCount : separator
+const { values } = parseArgs({
+  args: argv.slice(0, gitStart),
+  options: {
+    all: { type: "boolean" },
+  },
+})
+
+const gitArgs = argv.slice(separator === -1 ? gitStart : gitStart + 1)
+if (gitArgs.length === 0) {
+  console.error("Usage: translate-git.ts [--all] [--] <git command line>")
+  process.exit(2)
+}
+
+const result = translateGitCommand(gitArgs)
+
+function print(translation: Translation): void {
+  console.log(translation.command ?? "(no jj equivalent)")
+  console.log(`  ${translation.explanation ?? translation.note}`)
+  console.log(`  matched ${translation.template} (${translation.entry.id}), confidence ${translation.confidence}`)
+  if (translation.unmatched.length > 0) {
+    console.log(`  not translated: ${translation.unmatched.join(" ")}`)
+  }
+  if (translation.unused.length > 0) {
+    // Quoted template arguments bind under their quoted text (e.g., `"msg"`).
+    const placeholder = (name: string) => (/^["']/.test(name) ? name : `<${name}>`)
+    const unused = translation.unused.map((name) => `${translation.bindings[name]} (${placeholder(name)})`)
+    console.log(`  not used by jj: ${unused.join(" ")}`)
+  }
+  if (translation.needsInput.length > 0) {
+    console.log(`  fill in: ${translation.needsInput.join(" ")}`)
+  }
+}
+
+if (!result.best && result.candidates.length > 0) {
+  console.error(`"${result.input}" fits several glossary entries; pick the one you mean:`)
+  for (const translation of result.candidates) {
+    print(translation)
+  }
+  process.exit(1)
+}
+
+if (!result.best) {
+  console.error(`No glossary entry matches "${result.input}"`)
+  if (result.closest.length > 0) {
+    console.error("Closest entries:")
+    for (const entry of result.closest) {
+      console.error(`  ${entry.fromCommand} → ${entry.toCommand}`)
+    }
+  }
+  process.exit(1)
+}
+
+for (const translation of values.all ? result.candidates : [result.best]) {
+  print(translation)
+}
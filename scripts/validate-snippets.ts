@@ -0,0 +1,111 @@
+/**
+ * Run the shell snippets of jj-git and tmux lessons and katas locally.
+ *
+ * Each snippet runs in a fresh temporary workspace after the entry's
+ * validation prelude. Exits with a non-zero status when a snippet
+ * fails, times out, or its prelude fails. Requires the entry's tools
+ * (git, jj, tmux) on `PATH`; no network access is needed.
+ *
+ * With `--dry-run`, nothing runs: each selected snippet of every
+ * published entry (or of the `--slug` entries) is printed as the fully
+ * expanded program validation would use, after its prelude setup
+ * commands. `--line` narrows the selection to the snippet starting on
+ * that line.
+ *
+ * @example
+ * ```sh
+ * npx tsx scripts/validate-snippets.ts
+ * npx tsx scripts/validate-snippets.ts --slug jj-git --step 3 --step 4 --jobs 4 --verbose
+ * npx tsx scripts/validate-snippets.ts --slug jj-git --kata 2
+ * npx tsx scripts/validate-snippets.ts --dry-run --slug zio-cats --step 3 --line 17
+ * ```
+ *
+ * @module
+ */
+
+import { parseArgs } from "node:util"
+import { getPublishedEntries } from "../pairings"
+import { createSnippetExpander } from "../prelude"
+import { getSnippets } from "../snippets"
+import { formatSnippetLocation, formatSnippetReport, isSelected, runSnippets } from "../validation"
+
+const { values } = parseArgs({
+  options: {
+    slug: { type: "string", multiple: true },
+    step: { type: "string", multiple: true },
+    kata: { type: "string", multiple: true },
+    jobs: { type: "string" },
+    timeout: { type: "string" },
+    verbose: { type: "boolean", default: false },
+    "dry-run": { type: "boolean", default: false },
+    line: { type: "string" },
+  },
+})
+
+const numbers = (list: readonly string[] | undefined) => list?.map(Number)
+const steps = numbers(values.step)
+const katas = numbers(values.kata)
+const jobs = values.jobs === undefined ? undefined : Number(values.jobs)
+const timeout = values.timeout === undefined ? undefined : Number(values.timeout)
+const line = values.line === undefined ? undefined : Number(values.line)
+const invalid = [...(steps ?? []), ...(katas ?? []), ...(line === undefined ? [] : [line])].some(
+  (value) => !Number.isInteger(value) || value < 0,
+)
+if (invalid || (jobs !== undefined && !(jobs >= 1)) || (timeout !== undefined && !(timeout > 0))) {
+  console.error(
+    "Usage: validate-snippets.ts [--slug SLUG] [--step N] [--kata N] [--jobs N] [--timeout SECONDS] [--verbose]\n" +
+      "       validate-snippets.ts --dry-run [--slug SLUG] [--step N] [--kata N] [--line N]",
+  )
+  process.exit(2)
+}
+
+function dryRun(): void {
+  const selection = { ...(steps && { steps }), ...(katas && { katas }) }
+  for (const slug of values.slug ?? getPublishedEntries().map((entry) => entry.slug)) {
+    const expand = createSnippetExpander(slug)
+    const snippets = getSnippets(slug).filter(
+      (snippet) => isSelected(snippet, selection) && (line === undefined || snippet.line === line),
+    )
+    for (const snippet of snippets) {
+      const expanded = expand(snippet)
+      if (!expanded) {
+        console.log(`==> ${formatSnippetLocation(snippet)} (not validated: ${snippet.language ?? "no language"})\n`)
+        continue
+      }
+      console.log(`==> ${formatSnippetLocation(snippet)} (${expanded.environment}, ${expanded.role})`)
+      for (const command of expanded.setup) {
+        console.log(`$ ${command}`)
+      }
+      console.log(`${expanded.program}\n`)
+    }
+  }
+}
+
+async function main(): Promise<void> {
+  if (values["dry-run"]) {
+    dryRun()
+    return
+  }
+
+  const results = await runSnippets({
+    ...(values.slug && { slugs: values.slug }),
+    ...(steps && { steps }),
+    ...(katas && { katas }),
+    ...(jobs !== undefined && { parallelism: jobs }),
+    ...(timeout !== undefined && { timeoutMs: timeout * 1000 }),
+  })
+
+  console.log(formatSnippetReport(results, { verbose: values.verbose }))
+
+  const failed = results.filter(
+    (result) => result.status === "failed" || result.status === "timed-out" || result.status === "setup-failed",
+  )
+  if (failed.length > 0) {
+    process.exit(1)
+  }
+}
+
+main().catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -0,0 +1,66 @@
+/**
+ * Run the jj-git glossary commands in sandboxed repositories and report failures.
+ *
+ * Exits with a non-zero status when a command fails or uses a flag the
+ * installed tool no longer accepts, or when most entries cannot be
+ * checked because a tool is missing. Requires git and jj on `PATH`.
+ *
+ * @example
+ * ```sh
+ * npx tsx scripts/verify-glossary.ts
+ * npx tsx scripts/verify-glossary.ts --id remotes-2 --id remotes-3 --verbose
+ * ```
+ *
+ * @module
+ */
+
+import { parseArgs } from "node:util"
+import { glossaryFixtures, verifyGlossaryCommands } from "../glossary/verify"
+
+const { values } = parseArgs({
+  options: {
+    slug: { type: "string", default: "jj-git" },
+    id: { type: "string", multiple: true },
+    verbose: { type: "boolean", default: false },
+  },
+})
+
+if (!glossaryFixtures[values.slug]) {
+  console.error(`No verification fixtures for "${values.slug}"; known: ${Object.keys(glossaryFixtures).join(", ")}`)
+  process.exit(2)
+}
+
+const results = verifyGlossaryCommands(values.slug, values.id ? { ids: values.id } : {})
+
+let failures = 0
+for (const result of results) {
+  for (const side of result.sides) {
+    const problem = side.status === "failed" || side.status === "unsupported" || side.status === "setup-failed"
+    if (!problem && !values.verbose) continue
+
+    console.log(`${result.entry.id} ${side.tool} [${side.status}] ${side.original}${side.reason ? ` — ${side.reason}` : ""}`)
+    if (problem && side.stderr) {
+      console.log(side.stderr.trimEnd().replace(/^/gm, "    "))
+    }
+  }
+  if (!result.ok) failures++
+}
+
+const unavailable = results.filter((result) => result.sides.some((side) => side.status === "unavailable"))
+const reason = unavailable[0]?.sides.find((side) => side.status === "unavailable")?.reason
+
+if (failures > 0) {
+  console.error(`\n${failures} of ${results.length} glossary entries failed verification`)
+  process.exit(1)
+}
+
+if (unavailable.length * 2 > results.length) {
+  console.error(`skipped: ${reason} (${unavailable.length} of ${results.length} glossary entries not verified)`)
+  process.exit(1)
+}
+
+if (unavailable.length > 0) {
+  console.warn(`${unavailable.length} entries not verified: ${reason}`)
+}
+
+console.log(`${results.length - unavailable.length} of ${results.length} glossary entries checked`)
@@ -0,0 +1,421 @@
+/**
+ * Code snippet extraction from lesson and kata MDX.
+ *
+ * Build-time validation (the `validation` section of each `config.yml`)
+ * runs the code shown to learners. This module finds that code:
+ * `TryIt` commands, `SideBySide` `fromCommands` / `toCommands`,
+ * `ScalaComparisonBlock` `catsEffectCode` / `zioCode`,
+ * `CrossLanguageBlock` `zioCode` / `effectCode`, and fenced code
+ * blocks. Template literals written with the `|` margin convention are
+ * stripped, and every snippet records the file, line and column its
+ * code starts at.
+ *
+ * A component with `validate={false}` still yields its snippets, marked
+ * `validate: false`, so reports can count what was skipped.
+ *
+ * @example
+ * ```ts
+ * import { getSnippets } from "./snippets"
+ *
+ * getSnippets("zio-cats").filter((snippet) => snippet.validate)
+ * // [{ source: "ScalaComparisonBlock", prop: "catsEffectCode", tool: "cats-effect", language: "scala",
+ * //    code: "import cats.effect.IO\n...", file: ".../03-step.mdx", line: 17, column: 6, ... }, ...]
+ * ```
+ *
+ * @module
+ */
+
+import { existsSync, readdirSync } from "node:fs"
+import { join } from "node:path"
+import { type ContentOptions, ContentError, entryDir, parseFrontmatter, readContentFile } from "./content"
+import { getEntry, isPairing } from "./pairings"
+import type { ToolId } from "./tools"
+
+/**
+ * Where a snippet was written.
+ */
+export type SnippetSource = "TryIt" | "SideBySide" | "ScalaComparisonBlock" | "CrossLanguageBlock" | "fence"
+
+/**
+ * Component props holding code, by component.
+ */
+export const snippetProps = {
+  TryIt: ["command"],
+  SideBySide: ["fromCommands", "toCommands"],
+  ScalaComparisonBlock: ["catsEffectCode", "zioCode"],
+  CrossLanguageBlock: ["zioCode", "effectCode"],
+} as const satisfies Readonly<Record<Exclude<SnippetSource, "fence">, readonly string[]>>
+
+/**
+ * A prop holding code.
+ */
+export type SnippetProp = (typeof snippetProps)[keyof typeof snippetProps][number]
+
+/**
+ * A piece of code shown in a lesson or kata.
+ */
+export interface Snippet {
+  /** Entry slug */
+  readonly slug: string
+  /** Absolute path of the MDX file */
+  readonly file: string
+  /** Whether the file is a lesson or a kata */
+  readonly document: "lesson" | "kata"
+  /** Step number (0 for the intro) or kata number */
+  readonly step: number
+  /** Component or fenced block the snippet comes from */
+  readonly source: SnippetSource
+  /** Prop holding the code (`null` for fenced blocks) */
+  readonly prop: SnippetProp | null
+  /** Position in an array prop such as `fromCommands` (0 otherwise) */
+  readonly index: number
+  /** Tool the code is written for, when the prop implies one */
+  readonly tool: ToolId | null
+  /** `shell`, `scala`, `typescript`, or a fence's info string language (`null` if none) */
+  readonly language: string | null
+  /** The code, with margins stripped */
+  readonly code: string
+  /** 1-based line of the first code character */
+  readonly line: number
+  /** 1-based column of the first code character */
+  readonly column: number
+  /** `false` when the component has `validate={false}` */
+  readonly validate: boolean
+  /** The component's `id` prop, which step frontmatter uses to target the snippet (`null` if none) */
+  readonly id: string | null
+}
+
+/**
+ * Where an MDX source comes from, for {@link extractSnippets}.
+ */
+export interface SnippetContext {
+  /** Entry slug */
+  readonly slug: string
+  /** Whether the file is a lesson or a kata */
+  readonly document: "lesson" | "kata"
+  /** Step number (0 for the intro) or kata number */
+  readonly step: number
+}
+
+/**
+ * A prop value read from a component tag.
+ */
+type PropValue =
+  | { readonly kind: "strings"; readonly items: readonly { readonly text: string; readonly start: number }[] }
+  | { readonly kind: "boolean"; readonly value: boolean }
+  | { readonly kind: "expression" }
+
+const propLanguages: Readonly<Record<SnippetProp, string>> = {
+  command: "shell",
+  fromCommands: "shell",
+  toCommands: "shell",
+  catsEffectCode: "scala",
+  zioCode: "scala",
+  effectCode: "typescript",
+}
+
+const propTools: { readonly [prop in SnippetProp]?: ToolId } = {
+  catsEffectCode: "cats-effect",
+  zioCode: "zio",
+  effectCode: "effect",
+}
+
+/**
+ * Strip the `|` margin from a template literal written in the margin style.
+ *
+ * Each line loses its leading whitespace up to and including a `|`;
+ * blank first and last lines (around the backticks) are dropped. Text
+ * without margins is only trimmed of those blank lines.
+ *
+ * @param text - The template literal contents.
+ * @returns The stripped code and the offset of its first character in `text`.
+ */
+export function stripMargin(text: string): { readonly code: string; readonly offset: number } {
+  const lines = text.split("\n")
+  let offset = 0
+  while (lines.length > 1 && lines[0]?.trim() === "") {
+    offset += (lines.shift() ?? "").length + 1
+  }
+  while (lines.length > 1 && lines[lines.length - 1]?.trim() === "") {
+    lines.pop()
+  }
+
+  const margined = lines.every((line) => /^\s*\|/.test(line) || line.trim() === "")
+  if (!margined) {
+    return { code: lines.join("\n"), offset }
+  }
+  const first = lines[0] ?? ""
+  return {
+    code: lines.map((line) => line.replace(/^\s*\|/, "")).join("\n"),
+    offset: offset + first.indexOf("|") + 1,
+  }
+}
+
+function lineStarts(source: string): readonly number[] {
+  const starts = [0]
+  for (let index = source.indexOf("\n"); index !== -1; index = source.indexOf("\n", index + 1)) {
+    starts.push(index + 1)
+  }
+  return starts
+}
+
+function position(starts: readonly number[], offset: number): { readonly line: number; readonly column: number } {
+  let low = 0
+  let high = starts.length - 1
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2)
+    if ((starts[middle] ?? 0) <= offset) low = middle
+    else high = middle - 1
+  }
+  return { line: low + 1, column: offset - (starts[low] ?? 0) + 1 }
+}
+
+/**
+ * Read the props of a component tag, from just after its name up to `>` or `/>`.
+ *
+ * Values may be JSX strings, or expressions holding a boolean, a
+ * JavaScript string or template literal, or an array of those; other
+ * expressions are skipped.
+ */
+function readProps(
+  source: string,
+  start: number,
+  fail: (offset: number, reason: string) => never,
+): { readonly props: ReadonlyMap<string, PropValue>; readonly end: number } {
+  let index = start
+
+  const skipSpace = () => {
+    while (/\s/.test(source.charAt(index))) index++
+  }
+  const peek = (text: string) => source.startsWith(text, index)
+
+  // JSX attribute strings have no escapes; JavaScript strings and templates do.
+  const readString = (escapes: boolean): { readonly text: string; readonly start: number } => {
+    const quote = source.charAt(index)
+    const textStart = ++index
+    let text = ""
+    while (index < source.length) {
+      const char = source.charAt(index)
+      if (char === quote) {
+        index++
+        return { text, start: textStart }
+      }
+      if (char === "\\" && escapes) {
+        const next = source.charAt(index + 1)
+        text += next === "n" ? "\n" : next === "t" ? "\t" : next
+        index += 2
+        continue
+      }
+      text += char
+      index++
+    }
+    return fail(textStart - 1, "unterminated string")
+  }
+
+  const skipExpression = (open: number) => {
+    let depth = 1
+    while (index < source.length && depth > 0) {
+      const char = source.charAt(index)
+      if (char === '"' || char === "'" || char === "`") {
+        readString(true)
+        continue
+      }
+      if (char === "{") depth++
+      if (char === "}") depth--
+      index++
+    }
+    if (depth > 0) fail(open, "unterminated expression")
+  }
+
+  const readExpression = (): PropValue => {
+    const open = index++
+    skipSpace()
+    let value: PropValue = { kind: "expression" }
+    const literal = /^(true|false)\s*\}/.exec(source.slice(index, index + 10))
+    if (literal) {
+      index += (literal[1] ?? "").length
+      value = { kind: "boolean", value: literal[1] === "true" }
+    } else if (/["'`]/.test(source.charAt(index))) {
+      value = { kind: "strings", items: [readString(true)] }
+    } else if (peek("[")) {
+      index++
+      const items: { text: string; start: number }[] = []
+      for (skipSpace(); !peek("]"); skipSpace()) {
+        if (!/["'`]/.test(source.charAt(index))) {
+          skipExpression(open)
+          return { kind: "expression" }
+        }
+        items.push(readString(true))
+        skipSpace()
+        if (peek(",")) index++
+      }
+      index++
+      value = { kind: "strings", items }
+    }
+    skipSpace()
+    if (!peek("}")) {
+      skipExpression(open)
+      return { kind: "expression" }
+    }
+    index++
+    return value
+  }
+
+  const props = new Map<string, PropValue>()
+  for (skipSpace(); !peek("/>") && !peek(">"); skipSpace()) {
+    if (index >= source.length) {
+      return fail(start, "unterminated component tag")
+    }
+    const name = /^[A-Za-z_][\w-]*/.exec(source.slice(index, index + 64))?.[0]
+    if (!name) {
+      return fail(index, "expected a prop name")
+    }
+    index += name.length
+    skipSpace()
+    if (!peek("=")) {
+      props.set(name, { kind: "boolean", value: true })
+      continue
+    }
+    index++
+    skipSpace()
+    const char = source.charAt(index)
+    if (char === '"' || char === "'") {
+      props.set(name, { kind: "strings", items: [readString(false)] })
+    } else if (char === "{") {
+      props.set(name, readExpression())
+    } else {
+      return fail(index, "expected a string or {expression} prop value")
+    }
+  }
+  return { props, end: index }
+}
+
+/**
+ * Extract the snippets of one MDX source.
+ *
+ * Components inside fenced blocks and `{/* ... *\/}` comments are
+ * ignored; frontmatter is skipped.
+ *
+ * @param source - The complete MDX source, including frontmatter.
+ * @param file - File name recorded on snippets and used in error messages.
+ * @param context - Entry slug, document kind and step.
+ * @returns Snippets in source order.
+ * @throws {ContentError} If a component tag is malformed.
+ */
+export function extractSnippets(source: string, file: string, context: SnippetContext): readonly Snippet[] {
+  const starts = lineStarts(source)
+  const bodyStart = source.length - parseFrontmatter(source, file).body.length
+  const entry = getEntry(context.slug)
+  const sideTools: { readonly [prop in SnippetProp]?: ToolId } =
+    entry && isPairing(entry) ? { fromCommands: entry.from, toCommands: entry.to } : {}
+
+  const fail = (offset: number, reason: string): never => {
+    const { line, column } = position(starts, offset)
+    throw new ContentError(file, `${line}:${column}`, reason)
+  }
+
+  const snippet = (
+    fields: Pick<Snippet, "source" | "prop" | "index" | "language" | "validate" | "id">,
+    text: string,
+    start: number,
+  ): Snippet => {
+    const { code, offset } = stripMargin(text)
+    const prop = fields.prop
+    return {
+      ...context,
+      file,
+      ...fields,
+      tool: prop === null ? null : (propTools[prop] ?? sideTools[prop] ?? null),
+      code,
+      ...position(starts, start + offset),
+    }
+  }
+
+  const snippets: Snippet[] = []
+  // Fence openings (with their info string), JSX comments, and snippet components.
+  const fenceOpen = /^(`{3,}|~{3,})[ \t]*([^\s`]*)[^\n]*\n/.source
+  const jsxComment = /\{\/\*[\s\S]*?\*\/\}/.source
+  const pattern = new RegExp(`${fenceOpen}|${jsxComment}|<(${Object.keys(snippetProps).join("|")})\\b`, "gm")
+  pattern.lastIndex = bodyStart
+
+  for (let match = pattern.exec(source); match; match = pattern.exec(source)) {
+    const [whole, fence, language, component] = match
+
+    if (fence !== undefined) {
+      const start = match.index + whole.length
+      const close = new RegExp(`^${fence.charAt(0)}{${fence.length},}[ \\t]*$`, "m")
+      const end = start + (close.exec(source.slice(start))?.index ?? source.length - start)
+      const code = source.slice(start, end).replace(/\n$/, "")
+      snippets.push({
+        ...context,
+        file,
+        source: "fence",
+        prop: null,
+        index: 0,
+        tool: null,
+        language: language || null,
+        code,
+        ...position(starts, start),
+        validate: true,
+        id: null,
+      })
+      pattern.lastIndex = source.indexOf("\n", end) === -1 ? source.length : source.indexOf("\n", end) + 1
+      continue
+    }
+    if (component === undefined) {
+      continue
+    }
+
+    const { props, end } = readProps(source, match.index + whole.length, fail)
+    pattern.lastIndex = end
+    const validateProp = props.get("validate")
+    const validate = !(validateProp?.kind === "boolean" && !validateProp.value)
+    const idProp = props.get("id")
+    const id = idProp?.kind === "strings" && idProp.items.length === 1 ? (idProp.items[0]?.text ?? null) : null
+
+    for (const prop of snippetProps[component as keyof typeof snippetProps]) {
+      const value = props.get(prop)
+      if (value?.kind !== "strings") continue
+      value.items.forEach((item, index) => {
+        const language = propLanguages[prop]
+        const fields = { source: component as SnippetSource, prop, index, language, validate, id }
+        snippets.push(snippet(fields, item.text, item.start))
+      })
+    }
+  }
+
+  return snippets
+}
+
+function mdxFiles(dir: string, pattern: RegExp): readonly { readonly step: number; readonly file: string }[] {
+  if (!existsSync(dir)) {
+    return []
+  }
+  return readdirSync(dir)
+    .flatMap((name) => {
+      const match = pattern.exec(name)
+      return match ? [{ step: Number(match[1] ?? 0), file: join(dir, name) }] : []
+    })
+    .sort((a, b) => a.step - b.step)
+}
+
+/**
+ * Extract every snippet of an entry's lessons and katas.
+ *
+ * @param slug - The entry slug (e.g., "jj-git", "zio-cats").
+ * @param options - Optional content root override.
+ * @returns Snippets of the intro, then lessons by step, then katas by number.
+ * @throws {ContentError} If a file cannot be read or a component tag is malformed.
+ */
+export function getSnippets(slug: string, options: ContentOptions = {}): readonly Snippet[] {
+  const dir = entryDir(slug, options)
+  const lessons = mdxFiles(join(dir, "lessons"), /^(?:index|(\d+)-step)\.mdx$/)
+  const katas = mdxFiles(join(dir, "katas"), /^(\d+)-kata\.mdx$/)
+
+  return [
+    ...lessons.map((lesson) => ({ ...lesson, document: "lesson" as const })),
+    ...katas.map((kata) => ({ ...kata, document: "kata" as const })),
+  ].flatMap(({ step, file, document }) =>
+    extractSnippets(readContentFile(file), file, { slug, document, step }),
+  )
+}
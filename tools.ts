@@ -0,0 +1,182 @@
+/**
+ * Tool registry for toolkata.
+ *
+ * Describes every tool once (name, color, icon, homepage, language).
+ * Tutorial entries reference tools by id instead of repeating these
+ * details, so a tool looks the same in every pairing it appears in.
+ *
+ * @example
+ * ```ts
+ * import { getTool } from "./tools"
+ *
+ * const zio = getTool("zio")
+ * // { id: "zio", name: "ZIO", color: "#DC322F", ... }
+ * ```
+ */
+
+/**
+ * Identifier of a registered tool.
+ */
+export type ToolId = "git" | "jj" | "pijul" | "homebrew" | "nix" | "cats-effect" | "zio" | "effect" | "tmux"
+
+/**
+ * Primary programming language of a tool.
+ */
+export type ToolLanguage = "typescript" | "scala" | "shell" | "other"
+
+/**
+ * Tool metadata interface.
+ */
+export interface Tool {
+  /**
+   * Stable identifier referenced by tutorial entries (e.g., "git", "zio").
+   */
+  readonly id: ToolId
+
+  /**
+   * Display name.
+   */
+  readonly name: string
+
+  /**
+   * Short description of the tool.
+   */
+  readonly description: string
+
+  /**
+   * Brand color used in the UI.
+   */
+  readonly color?: string
+
+  /**
+   * Icon name used in the UI.
+   */
+  readonly icon?: string
+
+  /**
+   * Official homepage URL.
+   */
+  readonly homepage: string
+
+  /**
+   * Primary programming language of the tool.
+   */
+  readonly language: ToolLanguage
+}
+
+/**
+ * Tool versions a piece of content was written and checked against.
+ */
+export interface ContentVerification {
+  /**
+   * Targeted version per tool (e.g., `{ jj: "0.22" }`); partial versions like "2" cover any 2.x.
+   */
+  readonly toolVersions: { readonly [id in ToolId]?: string }
+
+  /**
+   * ISO date (YYYY-MM-DD) the content was last verified against those versions.
+   * Omitted until someone has actually run the content against them.
+   */
+  readonly verifiedAt?: string
+}
+
+/**
+ * Registry of all tools, keyed by id.
+ */
+export const tools = {
+  git: {
+    id: "git",
+    name: "git",
+    description: "Distributed VCS",
+    color: "#f05032",
+    icon: "git-branch",
+    homepage: "https://git-scm.com",
+    language: "shell",
+  },
+  jj: {
+    id: "jj",
+    name: "jj",
+    description: "Jujutsu, a git-compatible VCS",
+    color: "#39d96c",
+    icon: "arrows-clockwise",
+    homepage: "https://jj-vcs.github.io/jj/",
+    language: "shell",
+  },
+  pijul: {
+    id: "pijul",
+    name: "pijul",
+    description: "Patch-based VCS",
+    homepage: "https://pijul.org",
+    language: "shell",
+  },
+  homebrew: {
+    id: "homebrew",
+    name: "homebrew",
+    description: "macOS Package Manager",
+    homepage: "https://brew.sh",
+    language: "shell",
+  },
+  nix: {
+    id: "nix",
+    name: "nix",
+    description: "Reproducible Package Manager",
+    homepage: "https://nixos.org",
+    language: "other",
+  },
+  "cats-effect": {
+    id: "cats-effect",
+    name: "Cats Effect",
+    description: "Cats Effect 3",
+    color: "#8b5cf6",
+    icon: "scala",
+    homepage: "https://typelevel.org/cats-effect/",
+    language: "scala",
+  },
+  zio: {
+    id: "zio",
+    name: "ZIO",
+    description: "ZIO 2",
+    color: "#DC322F",
+    icon: "scala",
+    homepage: "https://zio.dev/",
+    language: "scala",
+  },
+  effect: {
+    id: "effect",
+    name: "Effect",
+    description: "Effect.TS",
+    color: "#3178C6",
+    icon: "typescript",
+    homepage: "https://effect.website",
+    language: "typescript",
+  },
+  tmux: {
+    id: "tmux",
+    name: "tmux",
+    description: "Terminal multiplexer",
+    color: "#1bbf4e",
+    icon: "terminal",
+    homepage: "https://github.com/tmux/tmux",
+    language: "shell",
+  },
+} as const satisfies { readonly [id in ToolId]: Tool & { readonly id: id } }
+
+/**
+ * Get a tool by id.
+ *
+ * @param id - The tool id (e.g., "git", "zio").
+ * @returns The tool metadata.
+ */
+export function getTool(id: ToolId): Tool {
+  return tools[id]
+}
+
+/**
+ * Type guard to check if a string is a registered tool id.
+ *
+ * @param id - The string to check.
+ * @returns `true` if the id exists in the registry.
+ */
+export function isToolId(id: string): id is ToolId {
+  return Object.hasOwn(tools, id)
+}
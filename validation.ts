@@ -0,0 +1,428 @@
+/**
+ * Local snippet validation for shell entries.
+ *
+ * Runs the shell snippets of entries validated in `bash` (jj-git and
+ * tmux) the way the build-time validation describes: each snippet gets
+ * a fresh temporary workspace, the setup of its validation prelude
+ * runs first (with step and snippet overrides, see `./prelude`), and
+ * the step's sandbox `timeout` applies. Snippets never share a
+ * workspace, so a snippet that needs a session or file an earlier
+ * snippet would have created gets it from its step's prelude
+ * (`validation.setup` in the frontmatter). Steps whose sandbox
+ * environment is `tmux` also get a detached tmux session on a private
+ * server. Everything runs offline; the tools themselves (git,
+ * jj, tmux) must be on `PATH`, otherwise snippets are `unavailable`.
+ *
+ * Key bindings (`Ctrl-b c`), interactive commands (`tmux attach`,
+ * `exit`), commands that need the network (`jj git fetch`, `git clone`),
+ * non-shell fences and `validate={false}` snippets are reported as
+ * skipped.
+ *
+ * @example
+ * ```ts
+ * import { formatSnippetReport, runSnippets } from "./validation"
+ *
+ * const results = await runSnippets({ slugs: ["jj-git"], steps: [3], parallelism: 4 })
+ * console.log(formatSnippetReport(results))
+ * ```
+ *
+ * @module
+ */
+
+import { spawn, spawnSync } from "node:child_process"
+import { mkdirSync, mkdtempSync, readdirSync, rmSync } from "node:fs"
+import { availableParallelism, tmpdir } from "node:os"
+import { join, relative } from "node:path"
+import { getSandboxConfig, loadPairingConfig } from "./config"
+import { type ContentOptions, CONTENT_ROOT } from "./content"
+import { getEntry, getEntryTools, getPublishedEntries } from "./pairings"
+import { createSnippetExpander } from "./prelude"
+import { type Snippet, getSnippets } from "./snippets"
+
+/**
+ * Outcome of running a snippet.
+ *
+ * - `passed`: the snippet exited with status 0
+ * - `failed`: the snippet exited with a non-zero status
+ * - `timed-out`: the snippet ran longer than the sandbox timeout
+ * - `skipped`: not runnable (see `reason`)
+ * - `unavailable`: a tool the entry needs is not installed
+ * - `setup-failed`: the prelude failed, so the snippet never ran
+ */
+export type SnippetStatus = "passed" | "failed" | "timed-out" | "skipped" | "unavailable" | "setup-failed"
+
+/**
+ * Result of running one snippet.
+ */
+export interface SnippetResult {
+  /** The snippet */
+  readonly snippet: Snippet
+  /** Outcome */
+  readonly status: SnippetStatus
+  /** Why the snippet was skipped, or what failed */
+  readonly reason?: string
+  /** Exit code of the snippet (or of the prelude, for `setup-failed`) */
+  readonly exitCode?: number | null
+  /** Captured stdout */
+  readonly stdout?: string
+  /** Captured stderr */
+  readonly stderr?: string
+  /** Wall-clock time of the run in milliseconds (setup excluded) */
+  readonly durationMs?: number
+}
+
+/**
+ * Options for {@link runSnippets}.
+ */
+export interface SnippetRunOptions extends ContentOptions {
+  /** Entries to run (default: every published entry validated in `bash`) */
+  readonly slugs?: readonly string[]
+  /** Only run these lesson steps (0 for the intro) */
+  readonly steps?: readonly number[]
+  /** Only run these katas */
+  readonly katas?: readonly number[]
+  /** Snippets run at the same time (default: the number of CPUs) */
+  readonly parallelism?: number
+  /** Timeout per snippet in milliseconds (default: the step's sandbox timeout) */
+  readonly timeoutMs?: number
+  /** Called after each snippet finishes, in completion order */
+  readonly onResult?: (result: SnippetResult) => void
+}
+
+/**
+ * Fence languages run as shell scripts.
+ */
+export const shellLanguages: readonly string[] = ["bash", "sh", "shell", "zsh"]
+
+/**
+ * Snippets matching any of these need a terminal or a human and are skipped.
+ */
+export const interactivePatterns: readonly RegExp[] = [
+  /^\s*exit\s*$/m,
+  /^\s*tmux\s*$/m,
+  /\btmux\s+new(?:-session)?\b(?![^\n]*\s-d\b)/,
+  /\btmux\s+(?:attach(?:-session)?|a)\b/,
+  /\btmux\s+detach(?:-client)?\b/,
+  /\btmuxinator\b/,
+  /^\s*(?:vim?|nano|less|more|top|htop)\b/m,
+  /\btail\s+-f\b/,
+  /\bnpm\s+(?:start|run\s+dev)\b/,
+  /\bjj\s+split\s*$/m,
+]
+
+/**
+ * Snippets matching any of these talk to a remote or download something and are skipped,
+ * since validation runs offline and the prelude repositories have no remotes.
+ */
+export const networkPatterns: readonly RegExp[] = [
+  /\bjj\s+git\s+(?:clone|fetch|push)\b/,
+  /\bgit\s+(?:clone|fetch|pull|push|ls-remote)\b/,
+  /\b(?:curl|wget)\s/,
+  /\b(?:gem|npm|pip|cargo|brew)\s+install\b/,
+  /\b(?:apt(?:-get)?|dnf|yum|pacman)\s+(?:update|upgrade|install|-S)\b/,
+]
+
+/**
+ * A line that is a key binding or key press rather than a command (`Ctrl-b c`, `PageUp`, `/`).
+ */
+export const keyBindingPattern =
+  /^\s*(?:(?:Ctrl|C|M|Alt|Meta|Shift)-\S+(?:\s+\S+)?|PageUp|PageDown|Space|Enter|Escape|[↑↓←→]|\S)\s*(?:#.*)?$/
+
+// Grace period for tmux to shut down after a snippet.
+const CLEANUP_TIMEOUT_MS = 5000
+
+/**
+ * Decide whether a snippet can run as a shell script.
+ *
+ * @param snippet - The snippet.
+ * @returns `null` if it can run, otherwise why it is skipped.
+ */
+export function skipReason(snippet: Snippet): string | null {
+  if (!snippet.validate) {
+    return "validate={false}"
+  }
+  if (snippet.language !== "shell" && !shellLanguages.includes(snippet.language ?? "")) {
+    return snippet.language === null ? "fence without a language" : `${snippet.language} code`
+  }
+  const lines = snippet.code.split("\n").filter((line) => line.trim() !== "" && !line.trim().startsWith("#"))
+  if (lines.length === 0) {
+    return "no commands"
+  }
+  if (lines.some((line) => keyBindingPattern.test(line))) {
+    return "key bindings"
+  }
+  if (interactivePatterns.some((pattern) => pattern.test(snippet.code))) {
+    return "interactive command"
+  }
+  if (networkPatterns.some((pattern) => pattern.test(snippet.code))) {
+    return "needs the network"
+  }
+  return null
+}
+
+interface ScriptResult {
+  readonly exitCode: number | null
+  readonly stdout: string
+  readonly stderr: string
+  readonly timedOut: boolean
+  readonly durationMs: number
+}
+
+function runScript(script: string, cwd: string, env: NodeJS.ProcessEnv, timeoutMs: number): Promise<ScriptResult> {
+  return new Promise((resolve) => {
+    const started = performance.now()
+    // A process group of its own, so a timeout also stops everything the script started.
+    const child = spawn("bash", ["-c", script], { cwd, env, detached: true, stdio: ["ignore", "pipe", "pipe"] })
+    let stdout = ""
+    let stderr = ""
+    let timedOut = false
+    child.stdout.setEncoding("utf8").on("data", (chunk: string) => {
+      stdout += chunk
+    })
+    child.stderr.setEncoding("utf8").on("data", (chunk: string) => {
+      stderr += chunk
+    })
+
+    const timer = setTimeout(() => {
+      timedOut = true
+      try {
+        if (child.pid !== undefined) process.kill(-child.pid, "SIGKILL")
+      } catch {
+        // Already exited.
+      }
+    }, timeoutMs)
+
+    const finish = (exitCode: number | null, error?: Error) => {
+      clearTimeout(timer)
+      resolve({
+        exitCode,
+        stdout,
+        stderr: error ? `${stderr}${error.message}\n` : stderr,
+        timedOut,
+        durationMs: Math.round(performance.now() - started),
+      })
+    }
+    child.on("error", (error) => finish(null, error))
+    child.on("close", (code) => finish(code))
+  })
+}
+
+function isInstalled(command: string): boolean {
+  return spawnSync("bash", ["-c", `command -v ${command}`], { stdio: "ignore" }).status === 0
+}
+
+interface Plan {
+  readonly snippet: Snippet
+  readonly setup: readonly string[]
+  readonly program: string
+  readonly tmux: boolean
+  readonly timeoutMs: number
+  readonly missing: readonly string[]
+}
+
+async function runSnippet(plan: Plan): Promise<SnippetResult> {
+  const { snippet } = plan
+  const reason = skipReason(snippet)
+  if (reason !== null) {
+    return { snippet, status: "skipped", reason }
+  }
+  if (plan.missing.length > 0) {
+    return { snippet, status: "unavailable", reason: `${plan.missing.join(", ")} not installed` }
+  }
+
+  const root = mkdtempSync(join(tmpdir(), "toolkata-snippet-"))
+  const workspace = join(root, "workspace")
+  const home = join(root, "home")
+  const tmuxDir = join(root, "tmux")
+  mkdirSync(workspace)
+  mkdirSync(home)
+  mkdirSync(tmuxDir)
+
+  const env: NodeJS.ProcessEnv = {
+    ...process.env,
+    HOME: home,
+    TMUX_TMPDIR: tmuxDir,
+    TMUX: "",
+    EDITOR: "true",
+    GIT_EDITOR: "true",
+    GIT_SEQUENCE_EDITOR: "true",
+    GIT_CONFIG_NOSYSTEM: "1",
+    GIT_TERMINAL_PROMPT: "0",
+    JJ_USER: "Test User",
+    JJ_EMAIL: "test@toolkata.com",
+    PAGER: "cat",
+  }
+
+  try {
+    const setup = await runScript(
+      ["set -e", ...(plan.tmux ? ["tmux new-session -d -s toolkata"] : []), ...plan.setup].join("\n"),
+      workspace,
+      env,
+      plan.timeoutMs,
+    )
+    if (setup.exitCode !== 0) {
+      return {
+        snippet,
+        status: "setup-failed",
+        reason: setup.timedOut ? "prelude timed out" : `prelude exited with ${setup.exitCode}`,
+        exitCode: setup.exitCode,
+        stdout: setup.stdout,
+        stderr: setup.stderr,
+      }
+    }
+
+    const result = await runScript(`set -e\n${plan.program}`, workspace, env, plan.timeoutMs)
+    const status = result.timedOut ? "timed-out" : result.exitCode === 0 ? "passed" : "failed"
+    return {
+      snippet,
+      status,
+      ...(status === "timed-out" && { reason: `exceeded ${plan.timeoutMs / 1000}s` }),
+      ...(status === "failed" && { reason: `exited with ${result.exitCode}` }),
+      exitCode: result.exitCode,
+      stdout: result.stdout,
+      stderr: result.stderr,
+      durationMs: result.durationMs,
+    }
+  } finally {
+    // tmux servers detach from the script, so stop the private one explicitly.
+    if (readdirSync(tmuxDir).length > 0) {
+      spawnSync("tmux", ["kill-server"], { env, stdio: "ignore", timeout: CLEANUP_TIMEOUT_MS })
+    }
+    rmSync(root, { recursive: true, force: true })
+  }
+}
+
+/**
+ * Check whether a snippet is in the selected lesson steps or katas.
+ *
+ * @param snippet - The snippet.
+ * @param selection - Steps and katas to keep; with neither, every snippet is selected.
+ * @returns `true` if the snippet is selected.
+ */
+export function isSelected(snippet: Snippet, selection: Pick<SnippetRunOptions, "steps" | "katas">): boolean {
+  if (!selection.steps && !selection.katas) {
+    return true
+  }
+  return (snippet.document === "lesson" ? selection.steps : selection.katas)?.includes(snippet.step) === true
+}
+
+function plansFor(slug: string, options: SnippetRunOptions): readonly Plan[] {
+  const entry = getEntry(slug)
+  if (!entry) {
+    throw new Error(`Unknown entry "${slug}"`)
+  }
+  const validation = loadPairingConfig(slug, options).validation
+  if (validation?.environment !== "bash") {
+    throw new Error(`"${slug}" is not validated in bash (environment: ${validation?.environment ?? "none"})`)
+  }
+
+  const missing = getEntryTools(entry)
+    .map((tool) => tool.id)
+    .filter((tool) => !isInstalled(tool))
+  const expand = createSnippetExpander(slug, options)
+  const sandboxes = new Map<number, ReturnType<typeof getSandboxConfig>>()
+  return getSnippets(slug, options)
+    .filter((snippet) => isSelected(snippet, options))
+    .map((snippet) => {
+      const step = snippet.document === "lesson" ? snippet.step : undefined
+      const key = step ?? -1
+      const sandbox = sandboxes.get(key) ?? getSandboxConfig(slug, step, options)
+      sandboxes.set(key, sandbox)
+      const expanded = expand(snippet)
+      return {
+        snippet,
+        setup: expanded?.setup ?? validation.prelude.setup ?? [],
+        program: expanded?.program ?? snippet.code,
+        tmux: sandbox.environment === "tmux",
+        timeoutMs: options.timeoutMs ?? sandbox.timeout * 1000,
+        missing,
+      }
+    })
+}
+
+/**
+ * Get the published entries whose snippets are validated in bash.
+ *
+ * @param options - Optional content root override.
+ * @returns Entry slugs in registry order.
+ */
+export function getShellEntrySlugs(options: ContentOptions = {}): readonly string[] {
+  return getPublishedEntries()
+    .filter((entry) => loadPairingConfig(entry.slug, options).validation?.environment === "bash")
+    .map((entry) => entry.slug)
+}
+
+/**
+ * Run the shell snippets of one or more entries.
+ *
+ * @param options - Entries, step and kata filters, parallelism, timeout and content root.
+ * @returns One result per snippet, in entry and source order.
+ * @throws {Error} If an entry is unknown or not validated in bash.
+ * @throws {ContentError} If config or MDX content is malformed.
+ */
+export async function runSnippets(options: SnippetRunOptions = {}): Promise<readonly SnippetResult[]> {
+  const plans = (options.slugs ?? getShellEntrySlugs(options)).flatMap((slug) => plansFor(slug, options))
+  const results: SnippetResult[] = new Array(plans.length)
+  let next = 0
+
+  const worker = async () => {
+    while (next < plans.length) {
+      const index = next++
+      const plan = plans[index]
+      if (!plan) continue
+      const result = await runSnippet(plan)
+      results[index] = result
+      options.onResult?.(result)
+    }
+  }
+
+  const parallelism = Math.max(1, Math.min(options.parallelism ?? availableParallelism(), plans.length))
+  await Promise.all(Array.from({ length: parallelism }, worker))
+  return results
+}
+
+/**
+ * Format the location of a snippet as `file:line:column` relative to the content root.
+ */
+export function formatSnippetLocation(snippet: Snippet, root: string = CONTENT_ROOT): string {
+  return `${relative(root, snippet.file)}:${snippet.line}:${snippet.column}`
+}
+
+/**
+ * Format results as a pass/fail report.
+ *
+ * Failures list the snippet and the tail of its output; passes and
+ * skips are listed only when `verbose` is set. The report ends with
+ * counts per status.
+ *
+ * @param results - Results from {@link runSnippets}.
+ * @param options - `verbose` to list every snippet; `root` for relative paths.
+ * @returns The report text.
+ */
+export function formatSnippetReport(
+  results: readonly SnippetResult[],
+  options: { readonly verbose?: boolean; readonly root?: string } = {},
+): string {
+  const lines: string[] = []
+  for (const result of results) {
+    const problem = result.status === "failed" || result.status === "timed-out" || result.status === "setup-failed"
+    if (!problem && !options.verbose) continue
+
+    const label = result.status.toUpperCase()
+    const firstLine = result.snippet.code.split("\n").find((line) => line.trim() !== "") ?? ""
+    const reason = result.reason ? ` — ${result.reason}` : ""
+    lines.push(`${label} ${formatSnippetLocation(result.snippet, options.root)} ${firstLine.trim()}${reason}`)
+    if (problem) {
+      const output = `${result.stdout ?? ""}${result.stderr ?? ""}`.trimEnd().split("\n").slice(-10).join("\n")
+      if (output) lines.push(output.replace(/^/gm, "    "))
+    }
+  }
+
+  const counts = new Map<SnippetStatus, number>()
+  for (const result of results) {
+    counts.set(result.status, (counts.get(result.status) ?? 0) + 1)
+  }
+  const summary = [...counts].map(([status, count]) => `${count} ${status}`).join(", ")
+  lines.push(`${results.length} snippets: ${summary || "none"}`)
+  return lines.join("\n")
+}
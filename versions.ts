@@ -0,0 +1,337 @@
+/**
+ * Tool version tracking and staleness detection.
+ *
+ * Every registry entry and glossary module declares the tool versions
+ * it targets and, once checked, when it was verified. This module
+ * reports content that was never verified, whose verification is older
+ * than a threshold, whose targeted versions are behind a locally
+ * supplied "latest versions" manifest, or that names other versions
+ * than it declares (a glossary disagreeing with its entry, or a lesson
+ * showing `jj 0.20.1` in an entry targeting jj 0.22).
+ *
+ * @example
+ * ```ts
+ * import { checkVersions, loadLatestVersions } from "./versions"
+ *
+ * const latest = loadLatestVersions("latest-versions.json")
+ * // latest-versions.json: { "jj": "0.34.0", "effect": "3.17.0" }
+ *
+ * checkVersions({ latest, maxAgeDays: 180 })
+ * // [{ source: "entry", slug: "jj-git", issues: [{ kind: "outdated", tool: "jj", ... }] }, ...]
+ * ```
+ *
+ * @module
+ */
+
+import { relative } from "node:path"
+import { CONTENT_ROOT, ContentError, expectObject, expectString, readContentFile } from "./content"
+import { getReferences } from "./glossary"
+import { getLessons } from "./lessons"
+import { type TutorialEntry, toolEntries } from "./pairings"
+import { type ContentVerification, type ToolId, isToolId, tools } from "./tools"
+
+/**
+ * Latest known version per tool.
+ */
+export type LatestVersions = { readonly [id in ToolId]?: string }
+
+/**
+ * Where a verification record comes from.
+ */
+export type VersionSource = "entry" | "glossary"
+
+/**
+ * A single version problem.
+ */
+export type VersionIssue =
+  | {
+      /** The content has no verification record or no `verifiedAt` date */
+      readonly kind: "unverified"
+    }
+  | {
+      /** `verifiedAt` is not a valid ISO date */
+      readonly kind: "invalid-date"
+      readonly verifiedAt: string
+    }
+  | {
+      /** Verification is older than the allowed age */
+      readonly kind: "stale"
+      readonly verifiedAt: string
+      readonly ageDays: number
+    }
+  | {
+      /** A targeted version is behind the latest known version */
+      readonly kind: "outdated"
+      readonly tool: ToolId
+      readonly declared: string
+      readonly latest: string
+    }
+  | {
+      /** The content names another version of a tool than the record declares */
+      readonly kind: "mismatch"
+      readonly tool: ToolId
+      readonly declared: string
+      readonly found: string
+      /** Where the other version appears (e.g., "jj-git/lessons/01-step.mdx:36") */
+      readonly location: string
+    }
+
+/**
+ * Version report for one entry or glossary module.
+ */
+export interface VersionReport {
+  /** Whether the record belongs to a registry entry or a glossary module */
+  readonly source: VersionSource
+  /** Entry slug (glossary modules are named after their entry) */
+  readonly slug: string
+  /** Problems found (empty when up to date) */
+  readonly issues: readonly VersionIssue[]
+}
+
+/**
+ * Options for {@link checkVersions}.
+ */
+export interface VersionCheckOptions {
+  /** Latest known tool versions (no `outdated` issues when omitted) */
+  readonly latest?: LatestVersions
+  /** Maximum age of a verification in days (default 180) */
+  readonly maxAgeDays?: number
+  /** Reference date for age calculations (default: now) */
+  readonly now?: Date
+  /** Entries to check (defaults to published registry entries) */
+  readonly entries?: readonly TutorialEntry[]
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+function parseVersion(version: string): readonly number[] | null {
+  const match = /^v?(\d+(?:\.\d+)*)/.exec(version.trim())
+  return match ? (match[1] ?? "").split(".").map(Number) : null
+}
+
+/**
+ * Check whether a targeted version is behind the latest version.
+ *
+ * Only the segments the declared version spells out are compared, so a
+ * declared "2" is current for any latest 2.x release.
+ *
+ * @param declared - The targeted version (e.g., "0.22", "2").
+ * @param latest - The latest known version (e.g., "0.34.0").
+ * @returns `true` if `latest` is newer within the declared precision.
+ */
+export function isVersionBehind(declared: string, latest: string): boolean {
+  const ours = parseVersion(declared)
+  const theirs = parseVersion(latest)
+  if (!ours || !theirs) {
+    return false
+  }
+
+  for (const [index, segment] of ours.entries()) {
+    const other = theirs[index] ?? 0
+    if (other !== segment) {
+      return other > segment
+    }
+  }
+  return false
+}
+
+/**
+ * Check whether a version names the same release as a targeted version.
+ *
+ * Segments are compared as far as both spell them out, so "0.22.0" and
+ * "2.x" match "0.22" and "2", while "0.20.1" does not match "0.22".
+ *
+ * @param declared - The targeted version (e.g., "0.22").
+ * @param found - A version named by the content (e.g., "0.20.1").
+ * @returns `true` if neither contradicts the other.
+ */
+export function isSameVersion(declared: string, found: string): boolean {
+  const ours = parseVersion(declared)
+  const theirs = parseVersion(found)
+  if (!ours || !theirs) {
+    return true
+  }
+  return ours.every((segment, index) => index >= theirs.length || theirs[index] === segment)
+}
+
+// Tool names followed by a version ("jj 0.20.1", "ZIO 2.x") or a minimum ("tmux 2.1+").
+// Longer names first, so "Cats Effect 3" is not read as Effect 3.
+const toolNames = Object.values(tools)
+  .flatMap((tool): readonly (readonly [string, ToolId])[] => [
+    [tool.name, tool.id],
+    [tool.id, tool.id],
+  ])
+  .sort(([a], [b]) => b.length - a.length)
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+const versionMention = new RegExp(
+  `(?<![\\w-])(${toolNames.map(([name]) => escapeRegExp(name)).join("|")})\\s+v?(\\d+(?:\\.\\d+)*)(\\+?)`,
+  "g",
+)
+
+/**
+ * Find tool versions named in an entry's lessons that differ from the declared ones.
+ *
+ * A minimum ("tmux 2.1+") only differs when it is newer than the declared version.
+ *
+ * @param slug - The entry slug.
+ * @param verification - The entry's verification record.
+ * @returns One `mismatch` issue per differing mention.
+ * @throws {ContentError} If a lesson is malformed.
+ */
+export function checkLessonVersions(slug: string, verification: ContentVerification): readonly VersionIssue[] {
+  const issues: VersionIssue[] = []
+  for (const lesson of getLessons(slug)) {
+    const lines = lesson.body.split("\n")
+    // The body follows the frontmatter, so count its lines from the end of the file.
+    const firstLine = readContentFile(lesson.file).split("\n").length - lines.length + 1
+    for (const [index, line] of lines.entries()) {
+      for (const [, name, found = "", minimum] of line.matchAll(versionMention)) {
+        const tool = toolNames.find(([candidate]) => candidate === name)?.[1]
+        const declared = tool === undefined ? undefined : verification.toolVersions[tool]
+        const differs =
+          declared !== undefined && (minimum ? isVersionBehind(declared, found) : !isSameVersion(declared, found))
+        if (tool !== undefined && declared !== undefined && differs) {
+          const location = `${relative(CONTENT_ROOT, lesson.file)}:${firstLine + index}`
+          issues.push({ kind: "mismatch", tool, declared, found, location })
+        }
+      }
+    }
+  }
+  return issues
+}
+
+/**
+ * Check a single verification record.
+ *
+ * @param verification - The record to check (`undefined` if the content declares none).
+ * @param options - Latest versions, age threshold and reference date.
+ * @returns Problems found (empty when up to date).
+ */
+export function checkVerification(
+  verification: ContentVerification | undefined,
+  options: VersionCheckOptions = {},
+): readonly VersionIssue[] {
+  if (!verification) {
+    return [{ kind: "unverified" }]
+  }
+
+  const issues: VersionIssue[] = []
+  const { verifiedAt, toolVersions } = verification
+  const verifiedTime =
+    verifiedAt !== undefined && /^\d{4}-\d{2}-\d{2}$/.test(verifiedAt)
+      ? Date.parse(`${verifiedAt}T00:00:00Z`)
+      : Number.NaN
+
+  if (verifiedAt === undefined) {
+    issues.push({ kind: "unverified" })
+  } else if (Number.isNaN(verifiedTime)) {
+    issues.push({ kind: "invalid-date", verifiedAt })
+  } else {
+    const ageDays = Math.floor(((options.now ?? new Date()).getTime() - verifiedTime) / MS_PER_DAY)
+    if (ageDays > (options.maxAgeDays ?? 180)) {
+      issues.push({ kind: "stale", verifiedAt, ageDays })
+    }
+  }
+
+  for (const [tool, declared] of Object.entries(toolVersions)) {
+    const latest = isToolId(tool) ? options.latest?.[tool] : undefined
+    if (isToolId(tool) && declared !== undefined && latest !== undefined && isVersionBehind(declared, latest)) {
+      issues.push({ kind: "outdated", tool, declared, latest })
+    }
+  }
+
+  return issues
+}
+
+/**
+ * Check every entry and glossary module for missing, stale, outdated or mismatched versions.
+ *
+ * Entries are also checked against the versions their lessons name,
+ * and glossary modules against the versions of their entry.
+ *
+ * @param options - Latest versions, age threshold, reference date and entries.
+ * @returns One report per entry and per glossary module, entries first.
+ * @throws {ContentError} If a lesson is malformed.
+ */
+export function checkVersions(options: VersionCheckOptions = {}): readonly VersionReport[] {
+  const entries = options.entries ?? toolEntries.filter((entry) => entry.status === "published")
+
+  const entryReports = entries.map(
+    (entry): VersionReport => ({
+      source: "entry",
+      slug: entry.slug,
+      issues: [
+        ...checkVerification(entry.verification, options),
+        ...(entry.verification ? checkLessonVersions(entry.slug, entry.verification) : []),
+      ],
+    }),
+  )
+  const glossaryReports = getReferences()
+    .filter((reference) => entries.some((entry) => entry.slug === reference.slug))
+    .map((reference): VersionReport => {
+      const entry = entries.find((candidate) => candidate.slug === reference.slug)
+      const entryVersions: ContentVerification["toolVersions"] = entry?.verification?.toolVersions ?? {}
+      const mismatches = Object.entries(reference.verification.toolVersions).flatMap(
+        ([tool, declared]): readonly VersionIssue[] => {
+          const found = isToolId(tool) ? entryVersions[tool] : undefined
+          return isToolId(tool) && declared !== undefined && found !== undefined && !isSameVersion(declared, found)
+            ? [{ kind: "mismatch", tool, declared, found, location: "registry entry" }]
+            : []
+        },
+      )
+      return {
+        source: "glossary",
+        slug: reference.slug,
+        issues: [...checkVerification(reference.verification, options), ...mismatches],
+      }
+    })
+
+  return [...entryReports, ...glossaryReports]
+}
+
+/**
+ * Load a "latest versions" manifest (a JSON object of tool id to version).
+ *
+ * @param file - Path of the JSON manifest.
+ * @returns The validated manifest.
+ * @throws {ContentError} If the file is unreadable, not JSON, or names unknown tools.
+ */
+export function loadLatestVersions(file: string): LatestVersions {
+  let raw: unknown
+  try {
+    raw = JSON.parse(readContentFile(file))
+  } catch (error) {
+    if (error instanceof ContentError) throw error
+    throw new ContentError(file, "", `invalid JSON (${error instanceof Error ? error.message : String(error)})`)
+  }
+
+  const latest: { [id in ToolId]?: string } = {}
+  for (const [tool, version] of Object.entries(expectObject(raw, file, ""))) {
+    if (!isToolId(tool)) {
+      throw new ContentError(file, tool, "unknown tool id")
+    }
+    latest[tool] = expectString(version, file, tool)
+  }
+  return latest
+}
+
+/**
+ * Format a version issue as a single line.
+ *
+ * @param issue - The issue to describe.
+ * @returns A human-readable description.
+ */
+export function formatVersionIssue(issue: VersionIssue): string {
+  switch (issue.kind) {
+    case "unverified":
+      return "never verified against its targeted versions"
+    case "invalid-date":
+      return `verifiedAt "${issue.verifiedAt}" is not a YYYY-MM-DD date`
+    case "stale":
+      return `verified ${issue.ageDays} days ago (${issue.verifiedAt})`
+    case "outdated":
+      return `targets ${issue.tool} ${issue.declared}, latest is ${issue.latest}`
+    case "mismatch":
+      return `targets ${issue.tool} ${issue.declared}, but ${issue.location} names ${issue.found}`
+  }
+}